@@ -0,0 +1,35 @@
+// src/tools/anchors.ts - Where a lint message is, independent of line numbers
+
+import fs from "fs";
+import { ESLint } from "eslint";
+
+function normalizeSnippet(line: string | undefined): string {
+  return (line ?? "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Normalized source line and occurrence of every message of a result, in
+ * message order. Together with the file and rule they identify a violation
+ * independently of its line number.
+ */
+export function anchorMessages(
+  result: ESLint.LintResult,
+): { snippet: string; occurrence: number }[] {
+  // Fixed output is what the message lines refer to after --fix
+  const source =
+    result.output ??
+    result.source ??
+    (fs.existsSync(result.filePath)
+      ? fs.readFileSync(result.filePath, "utf8")
+      : "");
+  const lines = source.split(/\r?\n/);
+  const seen = new Map<string, number>();
+
+  return result.messages.map((message) => {
+    const snippet = normalizeSnippet(lines[message.line - 1]);
+    const key = [message.ruleId ?? "", snippet].join("\0");
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    return { snippet, occurrence };
+  });
+}
@@ -5,30 +5,74 @@ import path from "path";
 import { ESLint } from "eslint";
 import { MemProfiler } from "./mem-profiler.ts";
 import { ConfigConverter } from "./config-converter.ts";
+import {
+  findFlatConfig,
+  findLegacyConfig,
+  findNestedConfigs,
+} from "./legacy-config.ts";
+import { DEFAULT_CONFIG } from "./defaults.ts";
+import { buildSarifLog } from "./sarif.ts";
 
 const projectRoot = process.cwd();
 
+// Optional SARIF output: --sarif=<file>
+const sarifArg = process.argv.find((arg) => arg.startsWith("--sarif="));
+const sarifPath = sarifArg?.replace("--sarif=", "");
+
+// Where results, the memory timeline and a converted config go:
+// --output-dir=<dir> (default: lint-output, as for master)
+const outputDirArg = process.argv.find((arg) =>
+  arg.startsWith("--output-dir="),
+);
+const outputDir =
+  outputDirArg?.replace("--output-dir=", "") ?? DEFAULT_CONFIG.outputDir;
+
+// Exit right after the summary: --no-sleep (for benchmarks)
+const noSleep = process.argv.includes("--no-sleep");
+
 async function main() {
   console.log("🚀 Starting ESLint Baseline\n");
 
-  // 1. Load legacy config
-  const legacyConfigPath = path.join(projectRoot, ".eslintrc.json");
+  // 1. Use the project's flat config, or convert the legacy one
+  let flatConfigPath = findFlatConfig(projectRoot);
 
-  if (!fs.existsSync(legacyConfigPath)) {
-    console.error("❌ No .eslintrc.json found");
-    process.exit(1);
-  }
+  if (flatConfigPath) {
+    console.log(`✓ Using flat config ${path.basename(flatConfigPath)}\n`);
+  } else {
+    const legacyConfigPath = findLegacyConfig(projectRoot);
 
-  const legacyConfig = ConfigConverter.loadLegacyConfig(legacyConfigPath);
-  console.log("✓ Legacy config loaded");
-  console.log(`  - Parser: ${legacyConfig.parser}`);
-  console.log(`  - Rules: ${Object.keys(legacyConfig.rules || {}).length}\n`);
+    if (!legacyConfigPath) {
+      console.error(
+        "❌ No eslint.config.*, .eslintrc.* or package.json eslintConfig found",
+      );
+      process.exit(1);
+    }
 
-  // 2. Convert to flat config
-  const { source } = ConfigConverter.convert(legacyConfig);
-  const flatConfigPath = path.join(projectRoot, "eslint.config.mjs");
-  ConfigConverter.writeFlatConfig(source, flatConfigPath);
-  console.log("✓ Flat config written\n");
+    const legacyConfig = ConfigConverter.loadLegacyConfig(legacyConfigPath);
+    const nested = await findNestedConfigs(projectRoot, [
+      path.relative(projectRoot, path.resolve(outputDir)) + "/**",
+    ]);
+    console.log(`✓ Legacy config loaded (${path.basename(legacyConfigPath)})`);
+    console.log(`  - Parser: ${legacyConfig.parser}`);
+    console.log(`  - Rules: ${Object.keys(legacyConfig.rules || {}).length}\n`);
+
+    // 2. Convert to flat config, into the output directory
+    const { source, warnings } = ConfigConverter.convert(legacyConfig, {
+      cwd: projectRoot,
+      nested,
+      tsconfigRootDir: projectRoot,
+      absoluteImports: true,
+    });
+    for (const w of warnings) {
+      console.log(`  ⚠️ ${w.path}: ${w.message}`);
+    }
+    flatConfigPath = path.resolve(outputDir, "eslint.config.mjs");
+    fs.mkdirSync(outputDir, { recursive: true });
+    ConfigConverter.writeFlatConfig(source, flatConfigPath);
+    console.log(
+      `✓ Flat config written to ${path.join(outputDir, "eslint.config.mjs")}\n`,
+    );
+  }
 
   // 3. Start profiling
   const profiler = new MemProfiler();
@@ -70,9 +114,22 @@ async function main() {
   }
 
   // 6. Save results
-  fs.writeFileSync("eslint-results.json", JSON.stringify(results, null, 2));
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(outputDir, "eslint-results.json"),
+    JSON.stringify(results, null, 2),
+  );
+  if (sarifPath) {
+    const sarif = buildSarifLog(
+      results,
+      eslint.getRulesMetaForResults(results),
+      [],
+      projectRoot,
+    );
+    fs.writeFileSync(sarifPath, JSON.stringify(sarif, null, 2));
+  }
   profiler.stop();
-  profiler.dump("memory-timeline.json");
+  profiler.dump(path.join(outputDir, "memory-timeline.json"));
 
   // 7. Summary
   const totalIssues = results.reduce(
@@ -90,9 +147,11 @@ async function main() {
   console.log(`    • Warnings: ${totalWarnings}\n`);
 
   console.log("📁 Output:");
-  console.log("  - eslint-results.json");
-  console.log("  - memory-timeline.json");
-  console.log("  - eslint.config.mjs");
+  console.log(`  - ${path.join(outputDir, "eslint-results.json")}`);
+  console.log(`  - ${path.join(outputDir, "memory-timeline.json")}`);
+  if (sarifPath) {
+    console.log(`  - ${sarifPath}`);
+  }
 
   // Top issues
   if (totalIssues > 0) {
@@ -113,8 +172,10 @@ async function main() {
       console.log(`  ${i + 1}. ${rule}: ${count}x`);
     });
 
-    console.log("Sleeping to allow observation...");
-    await new Promise((res) => setTimeout(res, 30000)); // 30s
+    if (!noSleep) {
+      console.log("Sleeping to allow observation...");
+      await new Promise((res) => setTimeout(res, 30000)); // 30s
+    }
   }
 }
 
@@ -0,0 +1,482 @@
+// src/tools/bench.ts - Benchmark baseline and master-worker runs over a config matrix
+
+import fs from "fs";
+import path from "path";
+import { spawn } from "child_process";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import { ESLint } from "eslint";
+import { DEFAULT_CONFIG } from "./defaults.ts";
+import { parseInteger } from "./cli.ts";
+import { MemorySample } from "./types.ts";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const projectRoot = process.cwd();
+
+interface BenchOptions {
+  help: boolean;
+  runs: number; // Per configuration
+  workers: number[]; // --max-workers values
+  divisors: number[]; // --batch-divisor values
+  outputDir: string;
+}
+
+interface BenchConfig {
+  name: string; // "baseline", "master-w2-d4"
+  mode: "baseline" | "master";
+  maxWorkers: number | null;
+  batchDivisor: number | null;
+}
+
+interface RunResult {
+  config: string;
+  run: number;
+  exitCode: number | null;
+  durationMs: number;
+  mainRSS: number; // Peak of the baseline or master process
+  workerRSS: number; // Peak of the largest worker (0 for baseline)
+  summedRSS: number; // Peak of all processes alive at the same time
+  workers: number;
+  files: number;
+  differences: string[] | null; // Files whose results differ from baseline
+}
+
+interface Stats {
+  min: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  max: number;
+}
+
+interface ConfigSummary extends BenchConfig {
+  runs: number;
+  failedRuns: number;
+  identical: boolean;
+  durationMs: Stats | null;
+  mainRSS: Stats | null;
+  workerRSS: Stats | null;
+  summedRSS: Stats | null;
+}
+
+// [timestamp, rss] samples of one process
+type Timeline = [number, number][];
+
+// File (relative) → its messages, one normalized line each
+type Fingerprint = Map<string, string>;
+
+const MAX_LISTED_DIFFERENCES = 10;
+
+function parseList(
+  flag: string,
+  value: string | undefined,
+  fallback: number[],
+): number[] {
+  if (value === undefined) {
+    return fallback;
+  }
+  return value.split(",").map((item) => parseInteger(flag, item.trim(), 0));
+}
+
+function parseBenchArgs(argv: string[]): BenchOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      help: { type: "boolean", short: "h" },
+      runs: { type: "string", short: "n" },
+      workers: { type: "string", short: "w" },
+      divisors: { type: "string", short: "d" },
+      "output-dir": { type: "string", short: "o" },
+    },
+  });
+
+  return {
+    help: values.help ?? false,
+    runs: parseInteger("runs", values.runs, 5),
+    workers: parseList("workers", values.workers, [1, 2, 4]),
+    divisors: parseList("divisors", values.divisors, [2, 4]),
+    outputDir:
+      values["output-dir"] ?? path.join(DEFAULT_CONFIG.outputDir, "bench"),
+  };
+}
+
+function printHelp(): void {
+  console.log(`
+Usage: npm run bench -- [options]
+
+Runs baseline.ts and master.ts on the default files (${DEFAULT_CONFIG.patterns.join(" ")})
+n times each, master over every --max-workers × --batch-divisor pair, and
+reports duration and peak RSS percentiles. Fails if any run's lint results
+differ from the first baseline run.
+
+Options:
+  -n, --runs <n>            Runs per configuration (default: 5)
+  -w, --workers <list>      --max-workers values, comma-separated (default: 1,2,4)
+  -d, --divisors <list>     --batch-divisor values, comma-separated (default: 2,4)
+  -o, --output-dir <dir>    Run outputs, bench.json and bench.md
+                            (default: ${DEFAULT_CONFIG.outputDir}/bench)
+  -h, --help                Show this help
+`);
+}
+
+// ============ Measurements ============
+
+function readJson<T>(file: string, fallback: T): T {
+  return fs.existsSync(file)
+    ? (JSON.parse(fs.readFileSync(file, "utf8")) as T)
+    : fallback;
+}
+
+function peak(timeline: Timeline): number {
+  return Math.max(0, ...timeline.map(([, rss]) => rss));
+}
+
+/**
+ * Highest sum of the RSS of every process at any sample time. A process
+ * counts from its first sample to its last, at its latest sample.
+ */
+function summedPeak(timelines: Timeline[]): number {
+  const times = [...new Set(timelines.flat().map(([ts]) => ts))].sort(
+    (a, b) => a - b,
+  );
+  const next = timelines.map(() => 0); // Index of each timeline's next sample
+  let max = 0;
+  for (const ts of times) {
+    let sum = 0;
+    timelines.forEach((timeline, i) => {
+      while (next[i]! < timeline.length && timeline[next[i]!]![0] <= ts) {
+        next[i]!++;
+      }
+      const alive = next[i]! > 0 && ts <= timeline[timeline.length - 1]![0];
+      if (alive) {
+        sum += timeline[next[i]! - 1]![1];
+      }
+    });
+    max = Math.max(max, sum);
+  }
+  return max;
+}
+
+/**
+ * Messages per file, relative to the project, in a stable order
+ */
+function fingerprint(results: ESLint.LintResult[]): Fingerprint {
+  const files: Fingerprint = new Map();
+  for (const result of results) {
+    const messages = result.messages
+      .map(
+        (m) => `${m.line}:${m.column} ${m.severity} ${m.ruleId} ${m.message}`,
+      )
+      .sort();
+    files.set(path.relative(projectRoot, result.filePath), messages.join("\n"));
+  }
+  return files;
+}
+
+function compare(reference: Fingerprint, other: Fingerprint): string[] {
+  const files = new Set([...reference.keys(), ...other.keys()]);
+  return [...files]
+    .filter((file) => reference.get(file) !== other.get(file))
+    .sort();
+}
+
+/**
+ * Run a tool the way the orchestrator forks workers, with its output in
+ * `<runDir>/output.log`
+ */
+function runTool(
+  script: string,
+  args: string[],
+  runDir: string,
+): Promise<{ exitCode: number | null; durationMs: number }> {
+  const log = fs.openSync(path.join(runDir, "output.log"), "w");
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      process.execPath,
+      ["--import", "tsx", path.join(__dirname, script), ...args],
+      { cwd: projectRoot, stdio: ["ignore", log, log] },
+    );
+    child.on("error", reject);
+    child.on("exit", (code) => {
+      fs.closeSync(log);
+      resolve({ exitCode: code, durationMs: Date.now() - start });
+    });
+  });
+}
+
+async function runConfig(
+  config: BenchConfig,
+  run: number,
+  outputDir: string,
+): Promise<{ result: RunResult; fingerprint: Fingerprint | null }> {
+  const runDir = path.join(outputDir, `${config.name}-${run}`);
+  fs.rmSync(runDir, { recursive: true, force: true });
+  fs.mkdirSync(runDir, { recursive: true });
+
+  let resultsFile: string;
+  let mainTimeline: Timeline;
+  const workerTimelines: Timeline[] = [];
+  let exitCode: number | null;
+  let durationMs: number;
+
+  if (config.mode === "baseline") {
+    ({ exitCode, durationMs } = await runTool(
+      "baseline.ts",
+      [`--output-dir=${runDir}`, "--no-sleep"],
+      runDir,
+    ));
+    resultsFile = path.join(runDir, "eslint-results.json");
+    mainTimeline = readJson<{ ts: number; rss: number }[]>(
+      path.join(runDir, "memory-timeline.json"),
+      [],
+    ).map((s) => [s.ts, s.rss]);
+  } else {
+    resultsFile = path.join(runDir, "results.json");
+    ({ exitCode, durationMs } = await runTool(
+      "master.ts",
+      [
+        "--output-dir",
+        runDir,
+        "--max-workers",
+        String(config.maxWorkers),
+        "--batch-divisor",
+        String(config.batchDivisor),
+        "--format",
+        "json",
+        "--output-file",
+        resultsFile,
+        "--progress",
+        "lines",
+        // Baseline reports every violation: no suppressions, no gate
+        "--suppressions",
+        path.join(runDir, "no-suppressions.json"),
+        "--fail-on",
+        "none",
+      ],
+      runDir,
+    ));
+    mainTimeline = readJson<{ ts: number; rss: number }[]>(
+      path.join(runDir, "master-memory.json"),
+      [],
+    ).map((s) => [s.ts, s.rss]);
+    for (const file of fs.readdirSync(runDir)) {
+      if (/^worker-\d+-memory\.json$/.test(file)) {
+        workerTimelines.push(
+          readJson<MemorySample[]>(path.join(runDir, file), []).map((s) => [
+            s.timestamp,
+            s.rss,
+          ]),
+        );
+      }
+    }
+  }
+
+  const results =
+    exitCode === 0
+      ? readJson<ESLint.LintResult[] | null>(resultsFile, null)
+      : null;
+  return {
+    result: {
+      config: config.name,
+      run,
+      exitCode,
+      durationMs,
+      mainRSS: peak(mainTimeline),
+      workerRSS: Math.max(0, ...workerTimelines.map(peak)),
+      summedRSS: summedPeak([mainTimeline, ...workerTimelines]),
+      workers: workerTimelines.length,
+      files: results?.length ?? 0,
+      differences: null,
+    },
+    fingerprint: results ? fingerprint(results) : null,
+  };
+}
+
+// ============ Statistics ============
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]!;
+}
+
+function stats(values: number[]): Stats | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0]!,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1]!,
+  };
+}
+
+function summarize(config: BenchConfig, runs: RunResult[]): ConfigSummary {
+  const ok = runs.filter((r) => r.exitCode === 0);
+  const measure = (key: "durationMs" | "mainRSS" | "workerRSS" | "summedRSS") =>
+    stats(ok.map((r) => r[key]));
+  return {
+    ...config,
+    runs: runs.length,
+    failedRuns: runs.length - ok.length,
+    identical: ok.length > 0 && ok.every((r) => r.differences?.length === 0),
+    durationMs: measure("durationMs"),
+    mainRSS: measure("mainRSS"),
+    workerRSS: config.mode === "master" ? measure("workerRSS") : null,
+    summedRSS: measure("summedRSS"),
+  };
+}
+
+// ============ Report ============
+
+function mb(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)} MB`;
+}
+
+function secs(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function cell(s: Stats | null, format: (n: number) => string): string {
+  return s ? `${format(s.p50)} / ${format(s.p90)}` : "-";
+}
+
+function markdownTable(summaries: ConfigSummary[]): string {
+  const rows = summaries.map((s) =>
+    [
+      s.mode,
+      s.maxWorkers ?? "-",
+      s.batchDivisor ?? "-",
+      s.failedRuns > 0 ? `${s.runs - s.failedRuns}/${s.runs}` : s.runs,
+      cell(s.durationMs, secs),
+      cell(s.mainRSS, mb),
+      cell(s.workerRSS, mb),
+      cell(s.summedRSS, mb),
+      s.identical ? "✅" : "❌",
+    ].join(" | "),
+  );
+  return [
+    "| Mode | Workers | Divisor | Runs | Duration p50 / p90 | Main RSS p50 / p90 | Worker RSS p50 / p90 | Summed RSS p50 / p90 | Identical |",
+    "|------|---------|---------|------|--------------------|--------------------|----------------------|----------------------|-----------|",
+    ...rows.map((row) => `| ${row} |`),
+  ].join("\n");
+}
+
+// ============ Main ============
+
+async function main(): Promise<void> {
+  let options: BenchOptions;
+  try {
+    options = parseBenchArgs(process.argv.slice(2));
+  } catch (err: unknown) {
+    console.error(`❌ ${err instanceof Error ? err.message : String(err)}`);
+    console.error("   Run with --help to see the available options");
+    process.exit(1);
+  }
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const outputDir = path.resolve(projectRoot, options.outputDir);
+  const configs: BenchConfig[] = [
+    {
+      name: "baseline",
+      mode: "baseline",
+      maxWorkers: null,
+      batchDivisor: null,
+    },
+  ];
+  for (const maxWorkers of options.workers) {
+    for (const batchDivisor of options.divisors) {
+      configs.push({
+        name: `master-w${maxWorkers}-d${batchDivisor}`,
+        mode: "master",
+        maxWorkers,
+        batchDivisor,
+      });
+    }
+  }
+
+  const total = configs.length * options.runs;
+  console.log(
+    `🏁 Benchmarking ${configs.length} configurations × ${options.runs} runs\n`,
+  );
+
+  // Round-robin over the configurations, so drift (thermal, page cache,
+  // other load) spreads over all of them instead of skewing one
+  const runs: RunResult[] = [];
+  let reference: Fingerprint | null = null;
+  for (let run = 1; run <= options.runs; run++) {
+    for (const config of configs) {
+      const { result, fingerprint } = await runConfig(config, run, outputDir);
+      reference ??= config.mode === "baseline" ? fingerprint : null;
+      if (fingerprint && reference) {
+        result.differences = compare(reference, fingerprint);
+      }
+      runs.push(result);
+
+      const status =
+        result.exitCode !== 0
+          ? `❌ exit ${result.exitCode}`
+          : result.differences === null
+            ? "⚠️ no baseline to compare"
+            : result.differences.length > 0
+              ? `❌ ${result.differences.length} files differ`
+              : "✓";
+      console.log(
+        `[${runs.length}/${total}] ${config.name} #${run}: ${secs(result.durationMs)}, main ${mb(result.mainRSS)}, summed ${mb(result.summedRSS)} ${status}`,
+      );
+    }
+  }
+
+  const summaries = configs.map((config) =>
+    summarize(
+      config,
+      runs.filter((r) => r.config === config.name),
+    ),
+  );
+  const table = markdownTable(summaries);
+  const jsonFile = path.join(outputDir, "bench.json");
+  const markdownFile = path.join(outputDir, "bench.md");
+  fs.writeFileSync(
+    jsonFile,
+    JSON.stringify(
+      { patterns: DEFAULT_CONFIG.patterns, options, summaries, runs },
+      null,
+      2,
+    ),
+  );
+  fs.writeFileSync(markdownFile, `${table}\n`);
+
+  console.log(`\n${table}\n`);
+  console.log("📁 Output:");
+  console.log(`  - ${path.relative(projectRoot, jsonFile)}`);
+  console.log(`  - ${path.relative(projectRoot, markdownFile)}`);
+
+  const differing = runs.filter((r) => r.differences?.length);
+  for (const r of differing) {
+    console.error(
+      `\n❌ ${r.config} #${r.run}: results differ from baseline in ${r.differences!.length} files`,
+    );
+    for (const file of r.differences!.slice(0, MAX_LISTED_DIFFERENCES)) {
+      console.error(`   - ${file}`);
+    }
+  }
+  if (summaries.some((s) => !s.identical || s.failedRuns > 0)) {
+    process.exit(1);
+  }
+}
+
+main().catch((err: unknown) => {
+  const message = err instanceof Error ? err.message : String(err);
+  console.error(`💥 Bench error: ${message}`);
+  process.exit(1);
+});
@@ -0,0 +1,199 @@
+// src/tools/ci-reporters.ts - JUnit XML, GitHub Actions and GitLab Code Quality output
+
+import crypto from "crypto";
+import path from "path";
+import { ESLint, Linter } from "eslint";
+import { anchorMessages } from "./anchors.ts";
+import { FailedFile } from "./types.ts";
+
+function relative(file: string, cwd: string): string {
+  return path.relative(cwd, file).split(path.sep).join("/");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function position(message: Linter.LintMessage): string {
+  return `${message.line}:${message.column}`;
+}
+
+// ============ JUnit ============
+
+/**
+ * One testsuite per file. Each error is a failed testcase, a file without
+ * errors gets a single passing testcase, and a file the orchestrator could
+ * not lint is an errored testcase. Warnings don't fail the suite.
+ */
+export function toJUnitXml(
+  results: ESLint.LintResult[],
+  failures: FailedFile[],
+  cwd: string,
+): string {
+  const suites: string[] = [];
+  let totalTests = 0;
+  let totalFailures = 0;
+
+  for (const result of results) {
+    const file = relative(result.filePath, cwd);
+    const errors = result.messages.filter((m) => m.severity === 2);
+    const cases = errors.map((message) => {
+      const rule = message.ruleId ?? "fatal";
+      return [
+        `    <testcase classname="${escapeXml(file)}" name="${escapeXml(`${rule} (${position(message)})`)}">`,
+        `      <failure type="${escapeXml(rule)}" message="${escapeXml(message.message)}">${escapeXml(`${file}:${position(message)} ${message.message}`)}</failure>`,
+        "    </testcase>",
+      ].join("\n");
+    });
+    if (cases.length === 0) {
+      cases.push(
+        `    <testcase classname="${escapeXml(file)}" name="eslint" />`,
+      );
+    }
+
+    totalTests += cases.length;
+    totalFailures += errors.length;
+    suites.push(
+      [
+        `  <testsuite name="${escapeXml(file)}" tests="${cases.length}" failures="${errors.length}" errors="0">`,
+        ...cases,
+        "  </testsuite>",
+      ].join("\n"),
+    );
+  }
+
+  for (const failure of failures) {
+    const file = relative(failure.file, cwd);
+    totalTests++;
+    suites.push(
+      [
+        `  <testsuite name="${escapeXml(file)}" tests="1" failures="0" errors="1">`,
+        `    <testcase classname="${escapeXml(file)}" name="eslint">`,
+        `      <error type="${failure.reason}" message="${escapeXml(failure.message)}" />`,
+        "    </testcase>",
+        "  </testsuite>",
+      ].join("\n"),
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="eslint" tests="${totalTests}" failures="${totalFailures}" errors="${failures.length}">`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+// ============ GitHub Actions ============
+
+function escapeData(text: string): string {
+  return text.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+function escapeProperty(text: string): string {
+  return escapeData(text).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+/**
+ * `::error file=…` / `::warning file=…` workflow commands, one per message
+ * and one per file the orchestrator could not lint
+ */
+export function toGitHubAnnotations(
+  results: ESLint.LintResult[],
+  failures: FailedFile[],
+  cwd: string,
+): string {
+  const lines: string[] = [];
+
+  for (const result of results) {
+    const file = escapeProperty(relative(result.filePath, cwd));
+    for (const message of result.messages) {
+      const command = message.severity === 2 ? "error" : "warning";
+      const props = [`file=${file}`, `line=${message.line}`];
+      props.push(`col=${message.column}`);
+      if (message.endLine !== undefined) {
+        props.push(`endLine=${message.endLine}`);
+      }
+      if (message.endColumn !== undefined) {
+        props.push(`endColumn=${message.endColumn}`);
+      }
+      props.push(`title=${escapeProperty(message.ruleId ?? "ESLint")}`);
+      lines.push(
+        `::${command} ${props.join(",")}::${escapeData(message.message)}`,
+      );
+    }
+  }
+
+  for (const failure of failures) {
+    const file = escapeProperty(relative(failure.file, cwd));
+    const title = escapeProperty(`ESLint ${failure.reason}`);
+    lines.push(
+      `::error file=${file},title=${title}::${escapeData(failure.message)}`,
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// ============ GitLab Code Quality ============
+
+interface CodeQualityIssue {
+  description: string;
+  check_name: string;
+  fingerprint: string;
+  severity: "info" | "minor" | "major" | "critical" | "blocker";
+  location: { path: string; lines: { begin: number } };
+}
+
+function fingerprint(...parts: (string | number)[]): string {
+  return crypto.createHash("md5").update(parts.join("\0")).digest("hex");
+}
+
+/**
+ * GitLab Code Quality report (a JSON array of issues). Errors are major,
+ * warnings minor, and files that could not be linted are blockers.
+ */
+export function toGitLabCodeQuality(
+  results: ESLint.LintResult[],
+  failures: FailedFile[],
+  cwd: string,
+): string {
+  const issues: CodeQualityIssue[] = [];
+
+  for (const result of results) {
+    const file = relative(result.filePath, cwd);
+    // Like suppressions, so an issue keeps its identity when lines above
+    // it are added or removed
+    const anchors = anchorMessages(result);
+    result.messages.forEach((message, index) => {
+      const checkName = message.ruleId ?? "fatal";
+      const { snippet, occurrence } = anchors[index]!;
+      issues.push({
+        description: message.message,
+        check_name: checkName,
+        fingerprint: fingerprint(file, checkName, snippet, occurrence),
+        severity: message.severity === 2 ? "major" : "minor",
+        location: { path: file, lines: { begin: Math.max(1, message.line) } },
+      });
+    });
+  }
+
+  for (const failure of failures) {
+    const file = relative(failure.file, cwd);
+    issues.push({
+      description: `${failure.reason}: ${failure.message}`,
+      check_name: `eslint-${failure.reason}`,
+      fingerprint: fingerprint(file, failure.reason),
+      severity: "blocker",
+      location: { path: file, lines: { begin: 1 } },
+    });
+  }
+
+  return JSON.stringify(issues, null, 2);
+}
@@ -0,0 +1,335 @@
+// src/tools/cli.ts - Command-line options for the master orchestrator
+
+import { parseArgs } from "util";
+import { OrchestratorConfig, BatchStrategy, FailOn, FixMode } from "./types.ts";
+import { printTestHelp } from "./test-scenarios.ts";
+import { ProgressMode } from "./progress.ts";
+import { DEFAULT_CONFIG } from "./defaults.ts";
+
+export interface CliOptions {
+  help: boolean;
+  testArgs: string[]; // --test / --test-file, normalized for getTestConfig
+  format: string; // ESLint formatter for the merged results
+  outputFile?: string; // Report destination (default: stdout)
+  progress: ProgressMode | "auto"; // auto: tty when stdout is a terminal
+  config: OrchestratorConfig;
+}
+
+const BATCH_STRATEGIES: BatchStrategy[] = ["naive", "project"];
+const FAIL_ON: FailOn[] = ["error", "warning", "none"];
+const PROGRESS_MODES: CliOptions["progress"][] = ["auto", "tty", "lines"];
+
+export function parseInteger(
+  flag: string,
+  value: string | undefined,
+  fallback: number,
+  min = 1,
+): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`--${flag} must be an integer >= ${min}, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * `--rule-budget <rule>=<n>`, repeatable; the last budget of a rule wins
+ */
+function parseRuleBudgets(
+  values: string[] | undefined,
+): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  for (const value of values ?? []) {
+    const separator = value.lastIndexOf("=");
+    const rule = value.slice(0, separator);
+    if (separator <= 0) {
+      throw new Error(`--rule-budget must be <rule>=<n>, got "${value}"`);
+    }
+    budgets[rule] = parseInteger(
+      `rule-budget ${rule}`,
+      value.slice(separator + 1),
+      0,
+      0,
+    );
+  }
+  return budgets;
+}
+
+/**
+ * Parse orchestrator flags and positional file/glob arguments
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      help: { type: "boolean", short: "h" },
+      config: { type: "string", short: "c" },
+      "output-dir": { type: "string", short: "o" },
+      format: { type: "string", short: "f" },
+      "output-file": { type: "string" },
+      progress: { type: "string" },
+      ignore: { type: "string", multiple: true },
+      "max-workers": { type: "string", short: "w" },
+      "max-retries": { type: "string" },
+      "memory-threshold": { type: "string" },
+      "memory-limit": { type: "string" },
+      "worker-cost": { type: "string" },
+      "batch-divisor": { type: "string" },
+      "batch-strategy": { type: "string" },
+      "worker-max-batches": { type: "string" },
+      "worker-recycle-rss": { type: "string" },
+      "batch-timeout": { type: "string" },
+      "heartbeat-timeout": { type: "string" },
+      "stall-timeout": { type: "string" },
+      "kill-grace": { type: "string" },
+      cache: { type: "boolean" },
+      "cache-location": { type: "string" },
+      "changed-since": { type: "string" },
+      "include-dependents": { type: "boolean" },
+      "only-changed-lines": { type: "boolean" },
+      suppressions: { type: "string" },
+      "update-suppressions": { type: "boolean" },
+      fix: { type: "boolean" },
+      "fix-dry-run": { type: "boolean" },
+      "fix-patch": { type: "string" },
+      "fail-on": { type: "string" },
+      "max-warnings": { type: "string" },
+      "rule-budget": { type: "string", multiple: true },
+      test: { type: "string" },
+      "test-file": { type: "string" },
+    },
+  });
+
+  const batchStrategy = (values["batch-strategy"] ??
+    DEFAULT_CONFIG.batchStrategy) as BatchStrategy;
+  if (!BATCH_STRATEGIES.includes(batchStrategy)) {
+    throw new Error(
+      `--batch-strategy must be one of ${BATCH_STRATEGIES.join(", ")}, got "${batchStrategy}"`,
+    );
+  }
+
+  const memoryThresholdPercent = parseInteger(
+    "memory-threshold",
+    values["memory-threshold"],
+    DEFAULT_CONFIG.memoryThresholdPercent,
+  );
+  if (memoryThresholdPercent > 100) {
+    throw new Error(
+      `--memory-threshold is a percentage, got "${memoryThresholdPercent}"`,
+    );
+  }
+
+  const changedSince = values["changed-since"] ?? DEFAULT_CONFIG.changedSince;
+  if (
+    changedSince === null &&
+    (values["include-dependents"] || values["only-changed-lines"])
+  ) {
+    throw new Error(
+      "--include-dependents and --only-changed-lines require --changed-since",
+    );
+  }
+
+  if (values.fix && (values["fix-dry-run"] || values["fix-patch"])) {
+    throw new Error(
+      "--fix writes files; use --fix-dry-run or --fix-patch to review fixes instead",
+    );
+  }
+  const fixPatch = values["fix-patch"] ?? DEFAULT_CONFIG.fixPatch;
+  const fix: FixMode = values.fix
+    ? "write"
+    : values["fix-dry-run"] || fixPatch !== null
+      ? "dry-run"
+      : DEFAULT_CONFIG.fix;
+
+  const failOn = (values["fail-on"] ?? DEFAULT_CONFIG.failOn) as FailOn;
+  if (!FAIL_ON.includes(failOn)) {
+    throw new Error(
+      `--fail-on must be one of ${FAIL_ON.join(", ")}, got "${failOn}"`,
+    );
+  }
+
+  const progress = (values.progress ?? "auto") as CliOptions["progress"];
+  if (!PROGRESS_MODES.includes(progress)) {
+    throw new Error(
+      `--progress must be one of ${PROGRESS_MODES.join(", ")}, got "${progress}"`,
+    );
+  }
+
+  const testArgs: string[] = [];
+  if (values.test !== undefined) {
+    testArgs.push(`--test=${values.test}`);
+  }
+  if (values["test-file"] !== undefined) {
+    testArgs.push(`--test-file=${values["test-file"]}`);
+  }
+
+  const config: OrchestratorConfig = {
+    patterns: positionals.length > 0 ? positionals : DEFAULT_CONFIG.patterns,
+    ignore: values.ignore ?? DEFAULT_CONFIG.ignore,
+    configPath: values.config ?? DEFAULT_CONFIG.configPath,
+    outputDir: values["output-dir"] ?? DEFAULT_CONFIG.outputDir,
+    maxWorkers: parseInteger(
+      "max-workers",
+      values["max-workers"],
+      DEFAULT_CONFIG.maxWorkers,
+    ),
+    maxRetries: parseInteger(
+      "max-retries",
+      values["max-retries"],
+      DEFAULT_CONFIG.maxRetries,
+      0,
+    ),
+    memoryThresholdPercent,
+    // At least 1MB: a zero budget could never schedule a worker
+    containerLimitMB:
+      values["memory-limit"] === undefined
+        ? DEFAULT_CONFIG.containerLimitMB
+        : parseInteger("memory-limit", values["memory-limit"], 0, 1),
+    defaultWorkerCostMB: parseInteger(
+      "worker-cost",
+      values["worker-cost"],
+      DEFAULT_CONFIG.defaultWorkerCostMB,
+    ),
+    initialBatchDivisor: parseInteger(
+      "batch-divisor",
+      values["batch-divisor"],
+      DEFAULT_CONFIG.initialBatchDivisor,
+    ),
+    batchStrategy,
+    workerMaxBatches: parseInteger(
+      "worker-max-batches",
+      values["worker-max-batches"],
+      DEFAULT_CONFIG.workerMaxBatches,
+    ),
+    workerRecycleRSSMB: parseInteger(
+      "worker-recycle-rss",
+      values["worker-recycle-rss"],
+      DEFAULT_CONFIG.workerRecycleRSSMB,
+    ),
+    batchTimeoutMs: parseInteger(
+      "batch-timeout",
+      values["batch-timeout"],
+      DEFAULT_CONFIG.batchTimeoutMs,
+    ),
+    heartbeatTimeoutMs: parseInteger(
+      "heartbeat-timeout",
+      values["heartbeat-timeout"],
+      DEFAULT_CONFIG.heartbeatTimeoutMs,
+    ),
+    stallTimeoutMs: parseInteger(
+      "stall-timeout",
+      values["stall-timeout"],
+      DEFAULT_CONFIG.stallTimeoutMs,
+    ),
+    killGraceMs: parseInteger(
+      "kill-grace",
+      values["kill-grace"],
+      DEFAULT_CONFIG.killGraceMs,
+      0,
+    ),
+    cache: values.cache ?? DEFAULT_CONFIG.cache,
+    cacheLocation: values["cache-location"] ?? DEFAULT_CONFIG.cacheLocation,
+    changedSince,
+    includeDependents:
+      values["include-dependents"] ?? DEFAULT_CONFIG.includeDependents,
+    onlyChangedLines:
+      values["only-changed-lines"] ?? DEFAULT_CONFIG.onlyChangedLines,
+    suppressionsFile: values.suppressions ?? DEFAULT_CONFIG.suppressionsFile,
+    updateSuppressions:
+      values["update-suppressions"] ?? DEFAULT_CONFIG.updateSuppressions,
+    fix,
+    fixPatch,
+    failOn,
+    maxWarnings:
+      values["max-warnings"] === undefined
+        ? DEFAULT_CONFIG.maxWarnings
+        : parseInteger("max-warnings", values["max-warnings"], 0, 0),
+    ruleBudgets: parseRuleBudgets(values["rule-budget"]),
+  };
+
+  return {
+    help: values.help === true,
+    testArgs,
+    format: values.format ?? "stylish",
+    outputFile: values["output-file"],
+    progress,
+    config,
+  };
+}
+
+/**
+ * Print orchestrator options followed by the test scenarios
+ */
+export function printHelp(): void {
+  const d = DEFAULT_CONFIG;
+  console.log(`
+Usage: npm run master -- [options] [files or globs...]
+
+Files:
+  [files or globs...]          What to lint (default: ${d.patterns.join(" ")})
+  --ignore <glob>              Skip matching files (repeatable)
+  -c, --config <path>          Flat or legacy ESLint config (default:
+                               eslint.config.* if the project has one, else
+                               .eslintrc.* or eslintConfig in package.json
+                               plus the configs of subdirectories)
+  -o, --output-dir <dir>       Where results are written (default: ${d.outputDir})
+  --cache                      Only lint files whose content, config or type
+                               dependencies changed since the last run
+  --cache-location <path>      Cache file (default: ${d.cacheLocation})
+  --changed-since <ref>        Only lint files added, modified or renamed since
+                               the merge base with <ref> (plus untracked files)
+  --include-dependents         Also lint files that import the changed ones
+  --only-changed-lines         Only report messages on changed lines
+
+Suppressions:
+  --suppressions <path>        Recorded violations that are not reported
+                               (default: ${d.suppressionsFile}, if it exists)
+  --update-suppressions        Record the current violations of linted files
+
+Fixes:
+  --fix                        Apply fixes to files that are unchanged since
+                               discovery
+  --fix-dry-run                Compute fixes without writing them
+  --fix-patch <path>           Write fixes as a unified diff instead of to files
+
+Report:
+  -f, --format <name>          ESLint formatter (stylish, json, html, ...), sarif,
+                               junit, github or gitlab (default: stylish)
+  --output-file <path>         Write the report to a file instead of stdout
+  --progress <mode>            tty (live status with per-worker memory and
+                               ETA), lines (a line every 10%, for CI) or auto
+                               (tty on a terminal; default)
+
+Gating (exit 1 = gate failed, 2 = files not linted, 3 = config error):
+  --fail-on <severity>         error | warning | none: lowest severity that
+                               fails the run (default: ${d.failOn})
+  --max-warnings <n>           Fail on more than n warnings
+  --rule-budget <rule>=<n>     Errors a rule may report before failing the run
+                               (repeatable); they don't count for --fail-on
+
+Workers:
+  -w, --max-workers <n>        Max concurrent workers (default: ${d.maxWorkers})
+  --max-retries <n>            OOM/timeout retry attempts per batch (default: ${d.maxRetries})
+  --batch-divisor <n>          Initial batch size = files ÷ n (default: ${d.initialBatchDivisor})
+  --batch-strategy <name>      naive | project (default: ${d.batchStrategy})
+  --worker-max-batches <n>     Recycle a worker after n batches (default: ${d.workerMaxBatches})
+  --worker-recycle-rss <mb>    Recycle a worker above this RSS (default: ${d.workerRecycleRSSMB})
+
+Memory:
+  --memory-threshold <pct>     Spawn gate, % of the memory limit (default: ${d.memoryThresholdPercent})
+  --memory-limit <mb>          Override the detected container limit (>= 1)
+  --worker-cost <mb>           Predicted worker cost before any worker reports (default: ${d.defaultWorkerCostMB})
+
+Timeouts:
+  --batch-timeout <ms>         Wall-clock budget per batch (default: ${d.batchTimeoutMs})
+  --heartbeat-timeout <ms>     Max gap between worker heartbeats (default: ${d.heartbeatTimeoutMs})
+  --stall-timeout <ms>         Max time a busy worker sends no results or memory samples (default: ${d.stallTimeoutMs})
+  --kill-grace <ms>            SIGTERM → SIGKILL delay (default: ${d.killGraceMs})
+
+  -h, --help                   Show this help`);
+  printTestHelp();
+}
@@ -1,113 +1,1154 @@
 // src/tools/config-converter.ts - Legacy to Flat config converter
 
 import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+import { builtinRules } from "eslint/use-at-your-own-risk";
+import type { FormatDiagnosticsHost } from "typescript";
+import { loadLegacyConfigFile } from "./legacy-config.ts";
+import {
+  Call,
+  Code,
+  ConfigModule,
+  Grouped,
+  ImportSpec,
+  ObjectValue,
+  Satisfies,
+  Spread,
+  Statement,
+  TypeCast,
+  Value,
+  printConfigModule,
+} from "./config-printer.ts";
 
 type RuleValue = string | number | unknown[] | Record<string, unknown>;
+type GlobalValue =
+  boolean | "readonly" | "readable" | "writable" | "writeable" | "off";
 
 export interface LegacyConfig {
-  extends?: string[];
+  root?: boolean;
+  extends?: string | string[];
   parser?: string;
   parserOptions?: {
-    project?: string;
+    project?: string | string[];
     sourceType?: string;
+    ecmaVersion?: number | "latest";
     [key: string]: unknown;
   };
   plugins?: string[];
+  env?: Record<string, boolean>;
+  globals?: Record<string, GlobalValue>;
+  settings?: Record<string, unknown>;
+  ignorePatterns?: string | string[];
+  noInlineConfig?: boolean;
+  reportUnusedDisableDirectives?: boolean | "off" | "warn" | "error";
+  processor?: string;
   rules?: Record<string, RuleValue>;
+  overrides?: LegacyOverride[];
 }
 
-export class ConfigConverter {
-  static convert(legacyConfig: LegacyConfig): { source: string } {
-    const isTypeScript = this.usesTypeScript(legacyConfig);
+export interface LegacyOverride extends Omit<
+  LegacyConfig,
+  "root" | "ignorePatterns"
+> {
+  files: string | string[];
+  excludedFiles?: string | string[];
+}
+
+/**
+ * A legacy config found below the project root, applied to its directory
+ */
+export interface LegacyConfigFile {
+  filePath: string; // Relative to the project root, for warnings
+  directory: string; // Relative to the project root, forward slashes
+  config: LegacyConfig;
+}
+
+export interface ConversionWarning {
+  path: string; // Where in the legacy config, e.g. "overrides[0].env.mocha",
+  // prefixed with the file for nested configs ("packages/a/.eslintrc.yml: rules.semi")
+  message: string;
+}
+
+export interface ConvertOptions {
+  cwd?: string; // Where plugins and parsers are resolved (default: process.cwd())
+  nested?: LegacyConfigFile[]; // Configs in subdirectories, parents first
+  // Absolute; by default the directory the flat config is written to
+  tsconfigRootDir?: string;
+  // Where the flat config is written, if it is to find tsconfigRootDir
+  // relative to itself (import.meta.dirname) rather than by absolute path
+  configDir?: string;
+  format?: ConfigFormat; // Default: "mjs"
+  // Import packages by the file URL they resolve to from cwd, for a config
+  // written outside the project (default: bare specifiers)
+  absoluteImports?: boolean;
+}
+
+/**
+ * eslint.config.mjs, or eslint.config.ts with the plugins typed and core
+ * rule options checked against ESLint's rule types
+ */
+export type ConfigFormat = "mjs" | "ts";
+
+export interface ConversionResult {
+  source: string;
+  // TypeScript only: modules for the packages without type declarations,
+  // to write to MODULE_DECLARATIONS_FILE next to the config (null if none)
+  declarations: string | null;
+  warnings: ConversionWarning[];
+}
+
+// Referenced by a TypeScript config that imports untyped packages
+export const MODULE_DECLARATIONS_FILE = "eslint.config.modules.d.ts";
+
+const TS_FILES = ["**/*.ts", "**/*.tsx", "**/*.mts", "**/*.cts"];
+const TS_PARSER = "@typescript-eslint/parser";
+const TS_PLUGIN = "@typescript-eslint";
+
+const CONFIG_KEYS = new Set([
+  "$schema",
+  "root",
+  "extends",
+  "parser",
+  "parserOptions",
+  "plugins",
+  "env",
+  "globals",
+  "settings",
+  "ignorePatterns",
+  "noInlineConfig",
+  "reportUnusedDisableDirectives",
+  "processor",
+  "rules",
+  "overrides",
+]);
+const OVERRIDE_KEYS = new Set([...CONFIG_KEYS, "files", "excludedFiles"]);
+
+// Legacy presets renamed in the plugin's flat configs
+const PRESET_ALIASES: Record<string, Record<string, string>> = {
+  [TS_PLUGIN]: {
+    "recommended-requiring-type-checking": "recommended-type-checked",
+  },
+};
+
+type PluginModule = {
+  configs?: Record<string, unknown>;
+  environments?: Record<string, unknown>;
+  rules?: Record<string, unknown>;
+};
+
+// Plugin typings predate flat config; the TypeScript output casts each
+// plugin to the configs and environments it uses
+const PLUGIN_INTERFACE = `interface Plugin<Configs extends string, Environments extends string = never>
+  extends ESLint.Plugin {
+  configs: Record<Configs, Linter.Config | Linter.Config[]>;
+  environments: Record<Environments, { globals: Linter.Globals }>;
+}`;
+
+/**
+ * Where a group of flat config objects applies. basePath is the directory
+ * of a nested legacy config; the patterns are relative to it.
+ */
+interface Scope {
+  basePath: string | null;
+  files: (string | string[])[] | null;
+  ignores: string[] | null;
+}
+
+interface PluginRef {
+  namespace: string;
+  ident: string;
+  importName: string; // In TypeScript, the untyped import behind `ident`
+  module: PluginModule | null; // null if it could not be loaded to inspect
+  configs: Set<string>; // Used, for the TypeScript cast
+  flatConfigs: Set<string>; // Used from configs.flat
+  environments: Set<string>;
+}
+
+// ============ Helpers ============
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function isEmpty(obj: Record<string, unknown>): boolean {
+  return Object.keys(obj).length === 0;
+}
+
+/**
+ * Plugin name as used in rule ids: "eslint-plugin-foo" → "foo",
+ * "@scope/eslint-plugin" → "@scope", "@scope/eslint-plugin-foo" → "@scope/foo"
+ */
+function pluginNamespace(name: string): string {
+  const scoped = /^(@[^/]+)\/eslint-plugin(?:-(.+))?$/.exec(name);
+  if (scoped) {
+    return scoped[2] ? `${scoped[1]}/${scoped[2]}` : scoped[1]!;
+  }
+  return name.replace(/^eslint-plugin-/, "");
+}
+
+function pluginPackage(namespace: string): string {
+  if (namespace.startsWith("@")) {
+    const [scope, name] = namespace.split("/");
+    return name ? `${scope}/eslint-plugin-${name}` : `${scope}/eslint-plugin`;
+  }
+  return `eslint-plugin-${namespace}`;
+}
 
-    if (!isTypeScript) {
-      throw new Error("Only TypeScript projects are supported in this PoC");
+/**
+ * Overrides match patterns without a slash against the basename, anywhere
+ */
+function toFlatFiles(patterns: string | string[]): string[] {
+  return toArray(patterns).map((p) => {
+    const relative = p.replace(/^\.?\//, "");
+    return relative.includes("/") ? relative : `**/${relative}`;
+  });
+}
+
+/**
+ * ignorePatterns follow .gitignore rules: unanchored without an inner
+ * slash, and a match on a directory ignores everything below it
+ */
+function toFlatIgnores(patterns: string | string[]): string[] {
+  return toArray(patterns).flatMap((p) => {
+    const negated = p.startsWith("!");
+    const body = negated ? p.slice(1) : p;
+    const anchored = body.replace(/\/$/, "").includes("/");
+    let pattern = body.replace(/^\//, "");
+    if (!anchored) {
+      pattern = `**/${pattern}`;
     }
+    const patterns = pattern.endsWith("/")
+      ? [pattern]
+      : [pattern, `${pattern}/**`];
+    return patterns.map((x) => (negated ? `!${x}` : x));
+  });
+}
 
-    const source = this.generateTypeScriptConfig(legacyConfig);
-    return { source };
+function normalizeGlobal(value: unknown): string | null {
+  switch (value) {
+    case true:
+    case "writable":
+    case "writeable":
+      return "writable";
+    case false:
+    case "readonly":
+    case "readable":
+      return "readonly";
+    case "off":
+      return "off";
+    default:
+      return null;
   }
+}
+
+// ============ Builder ============
+
+/**
+ * Accumulates imports and warnings while one legacy config is translated
+ */
+class FlatConfigBuilder {
+  readonly warnings: ConversionWarning[] = [];
+  private imports: ImportSpec[] = [];
+  private untyped = new Map<string, string>(); // module → type of its default export
+  private defaultImports = new Map<string, string>(); // module → identifier
+  private identifiers = new Set<string>([
+    "path",
+    "defineConfig",
+    "compat",
+    "FlatCompat",
+    "Plugin",
+    "ESLint",
+    "Linter",
+    "ESLintRules",
+  ]);
+  private plugins = new Map<string, PluginRef | null>();
+  private require: NodeJS.Require;
+  private environments: Map<string, unknown> | null = null;
+  private usesPath = false;
+  private usesCompat = false;
+  private usesRuleTypes = false;
+  private origin = ""; // Config file being converted, "" for the main one
 
-  private static usesTypeScript(config: LegacyConfig): boolean {
-    const hasParser =
-      config.parser?.includes("@typescript-eslint/parser") === true;
-    const hasPlugin = config.plugins?.includes("@typescript-eslint") === true;
-    const hasExtends =
-      config.extends?.some((e) => e.includes("@typescript-eslint")) === true;
-    return hasParser || hasPlugin || hasExtends;
+  constructor(
+    cwd: string,
+    private tsconfigRootDir: string | null,
+    private configDir: string | null,
+    private format: ConfigFormat,
+    private absoluteImports: boolean,
+  ) {
+    this.require = createRequire(path.join(cwd, "package.json"));
   }
 
-  private static generateTypeScriptConfig(config: LegacyConfig): string {
-    // Build rules
-    const rulesets: string[] = [];
-    const extendsArray = config.extends ?? [];
+  build(root: LegacyConfig, nested: LegacyConfigFile[]): string {
+    const configs: LegacyConfigFile[] = [
+      { filePath: "", directory: "", config: root },
+      ...nested,
+    ];
 
-    if (extendsArray.includes("plugin:@typescript-eslint/recommended")) {
-      rulesets.push("...tsPlugin.configs.recommended.rules");
+    // Plugins first, so every rule and preset can refer to them
+    for (const { filePath, config } of configs) {
+      this.origin = filePath;
+      for (const [i, name] of toArray(config.plugins).entries()) {
+        this.plugin(pluginNamespace(name), `plugins[${i}]`);
+      }
+      for (const [i, override] of toArray(config.overrides).entries()) {
+        for (const [j, name] of toArray(override.plugins).entries()) {
+          this.plugin(pluginNamespace(name), `overrides[${i}].plugins[${j}]`);
+        }
+      }
     }
 
-    if (
-      extendsArray.some(
-        (e) =>
-          e.includes("recommended-requiring-type-checking") ||
-          e.includes("recommended-type-checked"),
-      )
-    ) {
-      rulesets.push(
-        "...tsPlugin.configs['recommended-requiring-type-checking'].rules",
+    const ignores: Value[] = [
+      {
+        ignores: [
+          `eslint.config.${this.format}`,
+          ...toFlatIgnores(root.ignorePatterns ?? []),
+        ],
+      },
+    ];
+    const entries: Value[] = [];
+
+    for (const { filePath, directory, config } of configs) {
+      this.origin = filePath;
+      this.checkKeys(config, CONFIG_KEYS, "");
+      const basePath = directory || null;
+      if (basePath && config.ignorePatterns !== undefined) {
+        ignores.push({
+          basePath,
+          ignores: toFlatIgnores(config.ignorePatterns),
+        });
+      }
+
+      // A nested `root: true` config doesn't inherit from the ones above it
+      const excluded = nested
+        .filter(
+          (n) =>
+            n.config.root === true &&
+            n.directory.startsWith(directory ? `${directory}/` : ""),
+        )
+        .map((n) => `${path.posix.relative(directory, n.directory)}/**`);
+
+      const scope: Scope = {
+        basePath,
+        files: null,
+        ignores: excluded.length > 0 ? excluded : null,
+      };
+      entries.push(...this.entries(config, "", scope));
+      for (const [i, override] of toArray(config.overrides).entries()) {
+        entries.push(
+          ...this.override(override, `overrides[${i}]`, {
+            ...scope,
+            files: null,
+          }),
+        );
+      }
+    }
+    this.origin = "";
+
+    // Legacy plugins apply wherever they are loaded; flat ones must be
+    // registered by a config that matches the file
+    const registered = Object.fromEntries(
+      [...this.plugins.values()]
+        .filter((p): p is PluginRef => p !== null)
+        .map((p) => [p.namespace, new Code(p.ident)]),
+    );
+    const elements: Value[] = [...ignores];
+    if (!isEmpty(registered)) {
+      elements.push({ plugins: registered });
+    }
+    elements.push(...entries);
+
+    return printConfigModule(this.module(elements));
+  }
+
+  // ============ Config objects ============
+
+  private override(
+    override: LegacyOverride,
+    at: string,
+    parent: Scope,
+  ): Value[] {
+    this.checkKeys(override, OVERRIDE_KEYS, at);
+    const own = toFlatFiles(override.files);
+    // Nested overrides apply where both their own and the parent's patterns match
+    const files = parent.files
+      ? parent.files.flatMap((p) => own.map((o) => [...toArray(p), o]))
+      : own;
+    const ignores = [
+      ...(parent.ignores ?? []),
+      ...(override.excludedFiles ? toFlatFiles(override.excludedFiles) : []),
+    ];
+    const scope: Scope = {
+      basePath: parent.basePath,
+      files,
+      ignores: ignores.length > 0 ? ignores : null,
+    };
+
+    const elements = this.entries(override, at, scope);
+    for (const [i, nested] of toArray(override.overrides).entries()) {
+      elements.push(...this.override(nested, `${at}.overrides[${i}]`, scope));
+    }
+    return elements;
+  }
+
+  /**
+   * The config's own settings, with its presets and environments in
+   * `extends`; defineConfig() limits those to the same scope
+   */
+  private entries(config: LegacyConfig, at: string, scope: Scope): Value[] {
+    const prefix = at ? `${at}.` : "";
+    const body: ObjectValue = {};
+    if (scope.basePath) {
+      body.basePath = scope.basePath;
+    }
+    if (scope.files) {
+      body.files = scope.files;
+    }
+    if (scope.ignores) {
+      body.ignores = scope.ignores;
+    }
+    const scoping = new Set(Object.keys(body));
+
+    const presets: Value[] = [];
+    for (const [i, name] of toArray(config.extends).entries()) {
+      const preset = this.preset(name, `${prefix}extends[${i}]`);
+      if (preset) {
+        presets.push(preset);
+      }
+    }
+
+    // Core environments through FlatCompat, after the presets like in eslintrc
+    const envs: ObjectValue = {};
+    const envGlobals: ObjectValue = {};
+    for (const [name, enabled] of Object.entries(config.env ?? {})) {
+      if (!enabled) {
+        continue;
+      }
+      const env = this.environment(name, `${prefix}env.${name}`);
+      if (env === true) {
+        envs[name] = true;
+      } else if (env) {
+        envGlobals[`...${name}`] = new Spread(env);
+      }
+    }
+    if (!isEmpty(envs)) {
+      this.usesCompat = true;
+      presets.push(new Call("compat.env", envs));
+    }
+    if (presets.length > 0) {
+      body.extends = presets;
+    }
+
+    const languageOptions = this.languageOptions(config, prefix, envGlobals);
+    // The TypeScript parser and its options (a tsconfig `project`) only
+    // suit TypeScript files; presets and rules still apply to every file
+    const tsLanguageOptions: ObjectValue = {};
+    if (scope.files === null && config.parser === TS_PARSER) {
+      for (const key of ["parser", "parserOptions"]) {
+        const value = languageOptions[key];
+        if (value !== undefined) {
+          tsLanguageOptions[key] = value;
+          delete languageOptions[key];
+        }
+      }
+    }
+    if (!isEmpty(languageOptions)) {
+      body.languageOptions = languageOptions;
+    }
+
+    const linterOptions: ObjectValue = {};
+    if (config.noInlineConfig !== undefined) {
+      linterOptions.noInlineConfig = config.noInlineConfig;
+    }
+    if (config.reportUnusedDisableDirectives !== undefined) {
+      const report = config.reportUnusedDisableDirectives;
+      linterOptions.reportUnusedDisableDirectives =
+        report === true ? "error" : report === false ? "off" : report;
+    }
+    if (!isEmpty(linterOptions)) {
+      body.linterOptions = linterOptions;
+    }
+
+    if (config.processor !== undefined) {
+      const slash = config.processor.lastIndexOf("/");
+      if (
+        slash > 0 &&
+        this.plugin(config.processor.slice(0, slash), `${prefix}processor`)
+      ) {
+        body.processor = config.processor;
+      } else if (slash <= 0) {
+        this.warn(
+          `${prefix}processor`,
+          `Processor "${config.processor}" is not of the form plugin/processor`,
+        );
+      }
+    }
+
+    if (config.settings !== undefined) {
+      body.settings = config.settings as ObjectValue;
+    }
+
+    const rules = this.rules(config.rules ?? {}, `${prefix}rules`);
+    if (!isEmpty(rules)) {
+      body.rules = this.groupRules(rules);
+    }
+
+    const entries = Object.keys(body).some((k) => !scoping.has(k))
+      ? [body]
+      : [];
+    if (!isEmpty(tsLanguageOptions)) {
+      const tsBody: ObjectValue = {};
+      if (scope.basePath) {
+        tsBody.basePath = scope.basePath;
+      }
+      tsBody.files = TS_FILES;
+      if (scope.ignores) {
+        tsBody.ignores = scope.ignores;
+      }
+      tsBody.languageOptions = tsLanguageOptions;
+      entries.push(tsBody);
+    }
+    return entries;
+  }
+
+  private languageOptions(
+    config: LegacyConfig,
+    prefix: string,
+    envGlobals: ObjectValue,
+  ): ObjectValue {
+    const languageOptions: ObjectValue = {};
+    const globals: ObjectValue = { ...envGlobals };
+
+    for (const [name, value] of Object.entries(config.globals ?? {})) {
+      const normalized = normalizeGlobal(value);
+      if (normalized === null) {
+        this.warn(
+          `${prefix}globals.${name}`,
+          `Unknown global setting ${JSON.stringify(value)}`,
+        );
+      } else {
+        globals[name] = normalized;
+      }
+    }
+
+    const { ecmaVersion, sourceType, ...rest } = config.parserOptions ?? {};
+    if (ecmaVersion !== undefined) {
+      languageOptions.ecmaVersion = ecmaVersion;
+    }
+    if (sourceType !== undefined) {
+      languageOptions.sourceType = sourceType;
+    }
+
+    if (config.parser !== undefined) {
+      const parser = this.parser(config.parser, `${prefix}parser`);
+      if (parser) {
+        languageOptions.parser = parser;
+      }
+    }
+
+    if (!isEmpty(globals)) {
+      languageOptions.globals = globals;
+    }
+
+    const parserOptions = rest as ObjectValue;
+    if (rest.project !== undefined && rest.tsconfigRootDir === undefined) {
+      parserOptions.tsconfigRootDir = this.tsconfigRootDirValue();
+    }
+    if (!isEmpty(parserOptions)) {
+      languageOptions.parserOptions = parserOptions;
+    }
+    return languageOptions;
+  }
+
+  private rules(
+    rules: Record<string, RuleValue>,
+    at: string,
+  ): Record<string, RuleValue> {
+    const converted: Record<string, RuleValue> = {};
+
+    for (const [id, value] of Object.entries(rules)) {
+      const slash = id.lastIndexOf("/");
+      if (slash < 0) {
+        if (!builtinRules.has(id)) {
+          this.warn(
+            `${at}.${id}`,
+            `"${id}" is not a core rule in ESLint 9 (removed or misspelled)`,
+          );
+          continue;
+        }
+      } else {
+        const namespace = id.slice(0, slash);
+        const reported = this.plugins.has(namespace);
+        const plugin = this.plugin(namespace, `${at}.${id}`);
+        if (!plugin) {
+          if (reported) {
+            this.warn(
+              `${at}.${id}`,
+              `Dropped, plugin "${namespace}" is not available`,
+            );
+          }
+          continue;
+        }
+        if (
+          plugin.module?.rules &&
+          !(id.slice(slash + 1) in plugin.module.rules)
+        ) {
+          this.warn(`${at}.${id}`, `Plugin has no rule "${id}"`);
+          continue;
+        }
+      }
+      converted[id] = value;
+    }
+
+    return converted;
+  }
+
+  /**
+   * Core rules first, then one group per plugin in order of appearance;
+   * in TypeScript, core rule options are checked against ESLint's types
+   */
+  private groupRules(rules: Record<string, RuleValue>): Value {
+    const groups = new Map<string, ObjectValue>([["", {}]]);
+    for (const [id, value] of Object.entries(rules)) {
+      const slash = id.lastIndexOf("/");
+      const namespace = slash < 0 ? "" : id.slice(0, slash);
+      const group = groups.get(namespace) ?? {};
+      group[id] = value as Value;
+      groups.set(namespace, group);
+    }
+    const grouped = new Grouped([...groups.values()]);
+    if (this.format !== "ts") {
+      return grouped;
+    }
+    this.usesRuleTypes = true;
+    return new Satisfies(grouped, "Partial<ESLintRules>");
+  }
+
+  // ============ Modules ============
+
+  private preset(name: string, at: string): Value | null {
+    if (name === "eslint:recommended" || name === "eslint:all") {
+      this.addImport({ module: "@eslint/js", default: "js" });
+      this.identifiers.add("js");
+      return new Code(`js.configs.${name.slice("eslint:".length)}`);
+    }
+
+    if (!name.startsWith("plugin:")) {
+      this.warn(
+        at,
+        `Shareable config "${name}" is not converted; add its flat config by hand`,
+      );
+      return null;
+    }
+
+    const ref = name.slice("plugin:".length);
+    const slash = ref.lastIndexOf("/");
+    if (slash <= 0) {
+      this.warn(at, `"${name}" is not of the form plugin:name/config`);
+      return null;
+    }
+    const plugin = this.plugin(ref.slice(0, slash), at);
+    if (!plugin) {
+      return null;
+    }
+    const legacyName = ref.slice(slash + 1);
+    const configName =
+      PRESET_ALIASES[plugin.namespace]?.[legacyName] ?? legacyName;
+
+    if (!plugin.module) {
+      // Couldn't look inside (ESM-only plugin): assume the usual flat name
+      this.warn(
+        at,
+        `Plugin "${plugin.namespace}" could not be inspected; assuming config "flat/${configName}"`,
+      );
+      return this.pluginConfig(plugin, `flat/${configName}`);
+    }
+
+    const configs = plugin.module.configs ?? {};
+    if (configs[`flat/${configName}`] !== undefined) {
+      return this.pluginConfig(plugin, `flat/${configName}`);
+    }
+
+    const nested = (configs.flat as Record<string, unknown> | undefined)?.[
+      configName
+    ];
+    if (nested !== undefined) {
+      plugin.configs.add("flat");
+      plugin.flatConfigs.add(configName);
+      return new Code(
+        `${this.flatConfigs(plugin)}[${JSON.stringify(configName)}]`,
       );
     }
 
-    // User custom rules
-    const userRules = Object.entries(config.rules ?? {}).map(
-      ([key, value]) => `"${key}": ${JSON.stringify(value)}`,
+    const legacy = configs[legacyName] as Record<string, unknown> | undefined;
+    if (legacy === undefined) {
+      this.warn(
+        at,
+        `Plugin "${plugin.namespace}" has no config "${legacyName}"`,
+      );
+      return null;
+    }
+    if (!Array.isArray(legacy.plugins) && legacy.extends === undefined) {
+      // Already a flat config under the legacy name
+      return this.pluginConfig(plugin, legacyName);
+    }
+
+    const dropped = Object.keys(legacy).filter(
+      (k) => k !== "rules" && k !== "plugins",
     );
+    if (dropped.length > 0) {
+      this.warn(
+        at,
+        `Only the rules of legacy preset "${name}" are used; ${dropped.join(", ")} dropped`,
+      );
+    }
+    const config = this.pluginConfig(plugin, legacyName).text;
+    return {
+      rules: new Code(
+        this.format === "ts"
+          ? `(${config} as Linter.Config).rules`
+          : `${config}.rules`,
+      ),
+    };
+  }
 
-    const allRules = [...rulesets, ...userRules].join(",\n      ");
+  private pluginConfig(plugin: PluginRef, name: string): Code {
+    plugin.configs.add(name);
+    return new Code(`${plugin.ident}.configs[${JSON.stringify(name)}]`);
+  }
 
-    // Parser options
-    const parserOptions = config.parserOptions ?? {};
-    const project = parserOptions.project ?? "./tsconfig.json";
+  /**
+   * Where a plugin's configs.flat[name] are read from; TypeScript output
+   * declares a typed alias for it
+   */
+  private flatConfigs(plugin: PluginRef): string {
+    return this.format === "ts"
+      ? `${plugin.ident}FlatConfigs`
+      : `${plugin.ident}.configs.flat`;
+  }
 
-    return `import tsParser from "@typescript-eslint/parser";
-import tsPlugin from "@typescript-eslint/eslint-plugin";
-import path from "node:path";
-import { fileURLToPath } from "node:url";
+  private plugin(namespace: string, at: string): PluginRef | null {
+    if (this.plugins.has(namespace)) {
+      return this.plugins.get(namespace)!;
+    }
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+    const pkg = pluginPackage(namespace);
+    let ref: PluginRef | null = null;
+    try {
+      this.require.resolve(pkg);
+      const ident = this.identifier(
+        namespace === TS_PLUGIN ? "ts" : namespace,
+        "Plugin",
+      );
+      const importName = this.format === "ts" ? `${ident}Module` : ident;
+      this.identifiers.add(importName).add(`${ident}FlatConfigs`);
+      this.addImport({ module: pkg, default: importName });
+      ref = {
+        namespace,
+        ident,
+        importName,
+        module: this.load<PluginModule>(pkg),
+        configs: new Set(),
+        flatConfigs: new Set(),
+        environments: new Set(),
+      };
+    } catch {
+      this.warn(at, `Plugin package "${pkg}" is not installed`);
+    }
 
-export default [
-  {
-    ignores: ["eslint.config.mjs", "dist/**", "node_modules/**"],
-  },
-  {
-    files: ["**/*.ts", "**/*.tsx"],
-    languageOptions: {
-      parser: tsParser,
-      parserOptions: {
-        project: ${JSON.stringify(project)},
-        tsconfigRootDir: __dirname,
-      },
-      ecmaVersion: "latest",
-      sourceType: "module",
-    },
-    plugins: {
-      "@typescript-eslint": tsPlugin,
-    },
-    rules: {
-      ${allRules}
-    },
-  },
-];`;
+    this.plugins.set(namespace, ref);
+    return ref;
+  }
+
+  private parser(name: string, at: string): Code | null {
+    if (name === "espree") {
+      return null; // Flat config's default
+    }
+    try {
+      this.require.resolve(name);
+    } catch {
+      this.warn(at, `Parser "${name}" is not installed`);
+      return null;
+    }
+    const existing = this.defaultImports.get(name);
+    if (existing) {
+      return new Code(existing);
+    }
+    const ident = this.identifier(
+      name === TS_PARSER ? "ts" : name.replace(/eslint-parser|parser/g, ""),
+      "Parser",
+    );
+    this.addImport({ module: name, default: ident }, "Linter.Parser");
+    return new Code(ident);
+  }
+
+  /**
+   * `true` for a core environment (applied with FlatCompat), the globals
+   * to spread for a plugin's environment, null if it can't be converted
+   */
+  private environment(name: string, at: string): Code | true | null {
+    const slash = name.lastIndexOf("/");
+    if (slash > 0) {
+      const plugin = this.plugin(name.slice(0, slash), at);
+      const envName = name.slice(slash + 1);
+      if (!plugin) {
+        return null;
+      }
+      if (!plugin.module?.environments?.[envName]) {
+        this.warn(at, `Plugin environment "${name}" not found`);
+        return null;
+      }
+      plugin.environments.add(envName);
+      return new Code(
+        `${plugin.ident}.environments[${JSON.stringify(envName)}].globals`,
+      );
+    }
+
+    this.environments ??=
+      this.load<{ Legacy: { environments: Map<string, unknown> } }>(
+        "@eslint/eslintrc",
+      )?.Legacy.environments ?? new Map();
+    if (!this.environments.has(name)) {
+      this.warn(at, `Unknown environment "${name}"`);
+      return null;
+    }
+    return true;
+  }
+
+  /**
+   * The project root as seen from the written config: its own directory,
+   * a path relative to it, or the absolute path if its location is unknown
+   */
+  private tsconfigRootDirValue(): Value {
+    if (this.tsconfigRootDir === null) {
+      return new Code("import.meta.dirname");
+    }
+    if (this.configDir === null) {
+      return this.tsconfigRootDir;
+    }
+    const relative = path
+      .relative(this.configDir, this.tsconfigRootDir)
+      .split(path.sep)
+      .join("/");
+    if (relative === "") {
+      return new Code("import.meta.dirname");
+    }
+    this.usesPath = true;
+    return new Code(
+      `path.resolve(import.meta.dirname, ${JSON.stringify(relative)})`,
+    );
+  }
+
+  private load<T>(pkg: string): T | null {
+    try {
+      const mod = this.require(pkg) as T & { default?: T };
+      return mod.default ?? mod;
+    } catch {
+      return null;
+    }
   }
 
+  /**
+   * `type` is what an untyped package's default export is declared as in
+   * TypeScript; plugins are cast to the configs they use anyway
+   */
+  private addImport(spec: ImportSpec, type = "ESLint.Plugin"): void {
+    if (spec.default && !this.defaultImports.has(spec.module)) {
+      this.defaultImports.set(spec.module, spec.default);
+    }
+    if (this.format === "ts" && !this.hasTypes(spec.module)) {
+      this.untyped.set(spec.module, type);
+    }
+    this.imports.push(spec);
+  }
+
+  /** Ambient modules for the untyped packages, null if there are none */
+  declarations(): string | null {
+    if (this.untyped.size === 0) {
+      return null;
+    }
+    const modules = [...this.untyped].map(([module, type]) =>
+      [
+        `declare module ${JSON.stringify(module)} {`,
+        `  const value: import("eslint").${type};`,
+        "  export default value;",
+        "}",
+      ].join("\n"),
+    );
+    return (
+      [
+        "// Generated from a legacy ESLint config: packages without type declarations",
+        ...modules,
+      ].join("\n\n") + "\n"
+    );
+  }
+
+  /**
+   * Whether TypeScript finds declarations for a package: its own (types,
+   * typings, a "types" export condition or a .d.ts next to the entry
+   * point) or an @types package
+   */
+  private hasTypes(pkg: string): boolean {
+    const typesPackage = `@types/${pkg.replace(/^@/, "").replace("/", "__")}`;
+    try {
+      this.require.resolve(`${typesPackage}/package.json`);
+      return true;
+    } catch {
+      // Look at the package itself
+    }
+
+    let entry: string;
+    try {
+      entry = this.require.resolve(pkg);
+    } catch {
+      return false;
+    }
+    if (fs.existsSync(entry.replace(/\.[cm]?js$/, ".d.ts"))) {
+      return true;
+    }
+    for (let dir = path.dirname(entry); ; dir = path.dirname(dir)) {
+      const manifest = path.join(dir, "package.json");
+      if (fs.existsSync(manifest)) {
+        const json = JSON.parse(fs.readFileSync(manifest, "utf8")) as {
+          name?: string;
+          types?: string;
+          typings?: string;
+          exports?: unknown;
+        };
+        if (json.name === pkg) {
+          return (
+            json.types !== undefined ||
+            json.typings !== undefined ||
+            JSON.stringify(json.exports ?? {}).includes('"types"') ||
+            fs.existsSync(path.join(dir, "index.d.ts"))
+          );
+        }
+      }
+      if (path.dirname(dir) === dir) {
+        return false;
+      }
+    }
+  }
+
+  /** The import with its package replaced by the file cwd resolves it to */
+  private absoluteImport(spec: ImportSpec): ImportSpec {
+    if (spec.typeOnly || spec.module.startsWith("node:")) {
+      return spec;
+    }
+    try {
+      const file = this.require.resolve(spec.module);
+      return { ...spec, module: pathToFileURL(file).href };
+    } catch {
+      return spec; // Not installed; its plugin or parser was reported
+    }
+  }
+
+  private identifier(name: string, suffix: string): string {
+    const words = name
+      .replace(/^@/, "")
+      .split(/[^A-Za-z0-9]+/)
+      .filter((w) => w.length > 0);
+    const base =
+      words
+        .map((w, i) =>
+          i === 0 ? w.toLowerCase() : w[0]!.toUpperCase() + w.slice(1),
+        )
+        .join("") + suffix;
+    let ident = /^[0-9]/.test(base) ? `_${base}` : base;
+    for (let n = 2; this.identifiers.has(ident); n++) {
+      ident = `${base}${n}`;
+    }
+    this.identifiers.add(ident);
+    return ident;
+  }
+
+  // ============ Output ============
+
+  private checkKeys(config: object, allowed: Set<string>, at: string): void {
+    for (const key of Object.keys(config)) {
+      if (!allowed.has(key)) {
+        this.warn(at ? `${at}.${key}` : key, `Unknown config key "${key}"`);
+      }
+    }
+  }
+
+  private warn(at: string, message: string): void {
+    const where = this.origin ? `${this.origin}: ${at}` : at;
+    this.warnings.push({ path: where, message });
+  }
+
+  private module(elements: Value[]): ConfigModule {
+    const ts = this.format === "ts";
+    const plugins = [...this.plugins.values()].filter(
+      (p): p is PluginRef => p !== null,
+    );
+    const typed = ts && plugins.length > 0;
+
+    const imports: ImportSpec[] = [];
+    if (typed) {
+      imports.push({
+        module: "eslint",
+        named: ["ESLint", "Linter"],
+        typeOnly: true,
+      });
+    }
+    imports.push({ module: "eslint/config", named: ["defineConfig"] });
+    if (this.usesRuleTypes) {
+      imports.push({
+        module: "eslint/rules",
+        named: ["ESLintRules"],
+        typeOnly: true,
+      });
+    }
+    if (this.usesCompat) {
+      imports.push({ module: "@eslint/eslintrc", named: ["FlatCompat"] });
+    }
+    imports.push(...this.imports);
+    if (this.usesPath) {
+      imports.push({ module: "node:path", default: "path" });
+    }
+
+    const declarations: Statement[] = [];
+    if (this.usesCompat) {
+      declarations.push("const compat = new FlatCompat();");
+    }
+    if (ts) {
+      for (const p of plugins) {
+        const typeArgs = [[...p.configs]];
+        if (p.environments.size > 0) {
+          typeArgs.push([...p.environments]);
+        }
+        declarations.push({
+          name: p.ident,
+          init: new TypeCast(
+            p.importName,
+            "Plugin",
+            typeArgs.map((names) => names.map((n) => JSON.stringify(n))),
+          ),
+        });
+      }
+      for (const p of plugins.filter((p) => p.flatConfigs.size > 0)) {
+        declarations.push({
+          name: this.flatConfigs(p),
+          init: new TypeCast(`${p.ident}.configs.flat`, "Record", [
+            [...p.flatConfigs].map((n) => JSON.stringify(n)),
+            ["Linter.Config", "Linter.Config[]"],
+          ]),
+        });
+      }
+    }
+
+    return {
+      header: [
+        "// Generated from a legacy ESLint config",
+        ...(this.untyped.size > 0
+          ? [`/// <reference path="./${MODULE_DECLARATIONS_FILE}" />`]
+          : []),
+      ],
+      imports: this.absoluteImports
+        ? imports.map((spec) => this.absoluteImport(spec))
+        : imports,
+      blocks: [typed ? [PLUGIN_INTERFACE] : [], declarations],
+      config: new Call("defineConfig", elements),
+    };
+  }
+}
+
+export class ConfigConverter {
+  /**
+   * Translate a legacy config into flat config source. Anything that has
+   * no flat equivalent (or whose plugin isn't installed) is left out and
+   * reported in `warnings`.
+   */
+  static convert(
+    legacyConfig: LegacyConfig,
+    options: ConvertOptions = {},
+  ): ConversionResult {
+    const builder = new FlatConfigBuilder(
+      options.cwd ?? process.cwd(),
+      options.tsconfigRootDir ?? null,
+      options.configDir ?? null,
+      options.format ?? "mjs",
+      options.absoluteImports ?? false,
+    );
+    const source = builder.build(legacyConfig, options.nested ?? []);
+    return {
+      source,
+      declarations: builder.declarations(),
+      warnings: builder.warnings,
+    };
+  }
+
+  /**
+   * Any legacy format: .eslintrc.{js,cjs,yaml,yml,json}, .eslintrc or
+   * the eslintConfig key of package.json
+   */
   static loadLegacyConfig(configPath: string): LegacyConfig {
-    const content = fs.readFileSync(configPath, "utf8");
-    return JSON.parse(content) as LegacyConfig;
+    return loadLegacyConfigFile(configPath);
   }
 
-  static writeFlatConfig(source: string, outputPath: string): void {
+  /** The config, and next to it the declarations it references, if any */
+  static writeFlatConfig(
+    source: string,
+    outputPath: string,
+    declarations: string | null = null,
+  ): void {
     fs.writeFileSync(outputPath, source, "utf8");
+    if (declarations !== null) {
+      fs.writeFileSync(
+        path.join(path.dirname(outputPath), MODULE_DECLARATIONS_FILE),
+        declarations,
+        "utf8",
+      );
+    }
+  }
+
+  /**
+   * Type-check a generated eslint.config.ts with the TypeScript compiler,
+   * as strictly as a project is likely to; returns the diagnostics. Its
+   * imports resolve from projectRoot, wherever the config was written.
+   */
+  static async typeCheck(
+    configPath: string,
+    projectRoot = path.dirname(configPath),
+  ): Promise<string[]> {
+    const { default: ts } = await import("typescript");
+    const options = {
+      noEmit: true,
+      strict: true,
+      noUncheckedIndexedAccess: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      typeRoots: [path.join(projectRoot, "node_modules", "@types")],
+    };
+    const compilerHost = ts.createCompilerHost(options);
+    const configFile = path.resolve(configPath);
+    const resolveFrom = path.join(projectRoot, path.basename(configPath));
+    compilerHost.resolveModuleNames = (names, containingFile) =>
+      names.map(
+        (name) =>
+          ts.resolveModuleName(
+            name,
+            path.resolve(containingFile) === configFile
+              ? resolveFrom
+              : containingFile,
+            options,
+            compilerHost,
+          ).resolvedModule,
+      );
+    const program = ts.createProgram([configPath], options, compilerHost);
+    const host: FormatDiagnosticsHost = {
+      getCanonicalFileName: (f) => f,
+      getCurrentDirectory: () => path.dirname(configPath),
+      getNewLine: () => "\n",
+    };
+    return ts
+      .getPreEmitDiagnostics(program)
+      .map((d) => ts.formatDiagnostic(d, host).trim());
   }
 }
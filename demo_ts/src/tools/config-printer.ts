@@ -0,0 +1,390 @@
+// src/tools/config-printer.ts - Prints a generated flat config the way prettier would
+
+const PRINT_WIDTH = 80;
+
+// ============ Object model ============
+
+/**
+ * An expression placed verbatim in the output, e.g. `js.configs.recommended`
+ */
+export class Code {
+  constructor(readonly text: string) {}
+}
+
+/**
+ * `...value` as an array element or object property (the key is ignored)
+ */
+export class Spread {
+  constructor(readonly value: Code) {}
+}
+
+/**
+ * `callee(arg)`; an object argument stays on one line while it fits
+ */
+export class Call {
+  constructor(
+    readonly callee: string,
+    readonly arg: Value,
+  ) {}
+}
+
+/**
+ * `value satisfies type`, for TypeScript output
+ */
+export class Satisfies {
+  constructor(
+    readonly value: Value,
+    readonly type: string,
+  ) {}
+}
+
+/**
+ * An object whose properties are printed in groups separated by a blank line
+ */
+export class Grouped {
+  constructor(readonly groups: ObjectValue[]) {}
+}
+
+/**
+ * `expression as unknown as type<...>`; each type argument is a union
+ * of string literals, or `never` when empty
+ */
+export class TypeCast {
+  constructor(
+    readonly expression: string,
+    readonly type: string,
+    readonly typeArgs: string[][],
+  ) {}
+}
+
+export type Value =
+  | string
+  | number
+  | boolean
+  | null
+  | Code
+  | Spread
+  | Call
+  | Satisfies
+  | Grouped
+  | TypeCast
+  | Value[]
+  | ObjectValue;
+
+export interface ObjectValue {
+  [key: string]: Value;
+}
+
+export interface ImportSpec {
+  module: string;
+  default?: string;
+  named?: string[];
+  typeOnly?: boolean; // `import type`
+  comment?: string; // Line above the import
+}
+
+/**
+ * `const name = init;`, or a statement that is already formatted
+ */
+export type Statement = string | { name: string; init: Value };
+
+export interface ConfigModule {
+  header: string[]; // Comment lines
+  imports: ImportSpec[]; // Merged per module, in order of first use
+  blocks: Statement[][]; // Separated by blank lines
+  config: Value; // The default export
+}
+
+// ============ Values ============
+
+function printString(value: string): string {
+  const doubles = value.split('"').length;
+  const singles = value.split("'").length;
+  if (doubles <= singles) {
+    return JSON.stringify(value);
+  }
+  // Fewer escapes with single quotes, as prettier prefers
+  const body = JSON.stringify(value)
+    .slice(1, -1)
+    .replace(/\\"/g, '"')
+    .replace(/'/g, "\\'");
+  return `'${body}'`;
+}
+
+function printKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : printString(key);
+}
+
+function isObject(value: Value): value is ObjectValue {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    value.constructor === Object
+  );
+}
+
+function properties(value: ObjectValue | Grouped): ObjectValue[] {
+  const groups = value instanceof Grouped ? value.groups : [value];
+  return groups.filter((group) => Object.keys(group).length > 0);
+}
+
+function printTypeArgs(args: string[][]): string {
+  return args.map((arg) => arg.join(" | ") || "never").join(", ");
+}
+
+/**
+ * The value on a single line, or null if it always breaks. Objects only
+ * stay on one line as a call argument.
+ */
+function inline(value: Value, objects = false): string | null {
+  if (value instanceof Code) {
+    return value.text.includes("\n") ? null : value.text;
+  }
+  if (value instanceof Spread) {
+    const text = inline(value.value);
+    return text === null ? null : `...${text}`;
+  }
+  if (value instanceof Call) {
+    const arg = inline(value.arg, true);
+    return arg === null ? null : `${value.callee}(${arg})`;
+  }
+  if (value instanceof Satisfies) {
+    const text = inline(value.value);
+    return text === null ? null : `${text} satisfies ${value.type}`;
+  }
+  if (value instanceof TypeCast) {
+    return `${value.expression} as unknown as ${value.type}<${printTypeArgs(value.typeArgs)}>`;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((v) => inline(v));
+    return items.every((item) => item !== null)
+      ? `[${items.join(", ")}]`
+      : null;
+  }
+  if (isObject(value) || value instanceof Grouped) {
+    const groups = properties(value);
+    if (groups.length === 0) {
+      return "{}";
+    }
+    if (!objects || groups.length > 1) {
+      return null;
+    }
+    const items = Object.entries(groups[0]!).map(([k, v]) => {
+      const text = inline(v);
+      if (text === null) {
+        return null;
+      }
+      return v instanceof Spread ? text : `${printKey(k)}: ${text}`;
+    });
+    return items.every((item) => item !== null)
+      ? `{ ${items.join(", ")} }`
+      : null;
+  }
+  return typeof value === "string" ? printString(value) : String(value);
+}
+
+/**
+ * Prettier breaks an array of several arrays (or objects) that each have
+ * several elements, even if it would fit
+ */
+function isMatrix(value: Value[]): boolean {
+  return (
+    value.length > 1 && value.every((v) => Array.isArray(v) && v.length > 1)
+  );
+}
+
+/**
+ * `lead` is the width already used on the first line, `tail` what
+ * follows the value on its last line (a comma, `);`)
+ */
+function printValue(
+  value: Value,
+  indent: string,
+  lead: number,
+  tail: number,
+  objects = false,
+): string {
+  const text =
+    Array.isArray(value) && isMatrix(value) ? null : inline(value, objects);
+  if (text !== null && lead + text.length + tail <= PRINT_WIDTH) {
+    return text;
+  }
+
+  const inner = `${indent}  `;
+  if (value instanceof Code) {
+    return value.text.replace(/\n/g, `\n${indent}`);
+  }
+  if (value instanceof Spread) {
+    return `...${printValue(value.value, indent, lead + 3, tail)}`;
+  }
+  if (value instanceof Call) {
+    const arg = printValue(
+      value.arg,
+      indent,
+      lead + value.callee.length + 1,
+      tail + 1,
+      true,
+    );
+    return `${value.callee}(${arg})`;
+  }
+  if (value instanceof Satisfies) {
+    const type = ` satisfies ${value.type}`;
+    return `${printValue(value.value, indent, lead, tail + type.length)}${type}`;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(
+      (v) => `${inner}${printValue(v, inner, inner.length, 1)},`,
+    );
+    return `[\n${items.join("\n")}\n${indent}]`;
+  }
+  if (isObject(value) || value instanceof Grouped) {
+    const groups = properties(value).map((group) =>
+      Object.entries(group)
+        .map(([k, v]) => `${inner}${printProperty(k, v, inner)},`)
+        .join("\n"),
+    );
+    return `{\n${groups.join("\n\n")}\n${indent}}`;
+  }
+  return text ?? String(value);
+}
+
+function printProperty(key: string, value: Value, indent: string): string {
+  if (value instanceof Spread) {
+    return printValue(value, indent, indent.length, 1);
+  }
+  const head = `${printKey(key)}: `;
+  const lead = indent.length + head.length;
+  // A string that doesn't fit moves to its own line
+  if (
+    typeof value === "string" &&
+    lead + printString(value).length + 1 > PRINT_WIDTH
+  ) {
+    return `${printKey(key)}:\n${indent}  ${printString(value)}`;
+  }
+  return `${head}${printValue(value, indent, lead, 1)}`;
+}
+
+// ============ Statements ============
+
+/**
+ * `head<...>;` with the type arguments broken over lines, one per line,
+ * and a union that doesn't fit one member per line
+ */
+function printBrokenTypeArgs(
+  head: string,
+  cast: TypeCast,
+  indent: string,
+): string {
+  const inner = `${indent}  `;
+  const lines = [`${head}<`];
+  cast.typeArgs.forEach((arg, i) => {
+    const comma = i < cast.typeArgs.length - 1 ? "," : "";
+    const union = arg.join(" | ") || "never";
+    if (
+      arg.length <= 1 ||
+      inner.length + union.length + comma.length <= PRINT_WIDTH
+    ) {
+      lines.push(`${inner}${union}${comma}`);
+    } else {
+      lines.push(...arg.map((member) => `${inner}| ${member}`));
+      lines[lines.length - 1] += comma;
+    }
+  });
+  lines.push(`${indent}>;`);
+  return lines.join("\n");
+}
+
+function printCast(name: string, cast: TypeCast): string {
+  const head = `${cast.expression} as unknown as ${cast.type}`;
+  const oneLine = `const ${name} = ${inline(cast)};`;
+  if (oneLine.length <= PRINT_WIDTH) {
+    return oneLine;
+  }
+  const declaration = `const ${name} = ${head}`;
+  if (declaration.length + 1 <= PRINT_WIDTH) {
+    return printBrokenTypeArgs(declaration, cast, "");
+  }
+  // The whole cast moves below the name
+  const moved = `  ${inline(cast)};`;
+  return moved.length <= PRINT_WIDTH
+    ? `const ${name} =\n${moved}`
+    : `const ${name} =\n${printBrokenTypeArgs(`  ${head}`, cast, "  ")}`;
+}
+
+function printStatement(statement: Statement): string {
+  if (typeof statement === "string") {
+    return statement;
+  }
+  const { name, init } = statement;
+  if (init instanceof TypeCast) {
+    return printCast(name, init);
+  }
+  const head = `const ${name} = `;
+  return `${head}${printValue(init, "", head.length, 1)};`;
+}
+
+function printImport(spec: ImportSpec): string {
+  const keyword = spec.typeOnly ? "import type" : "import";
+  const named = spec.named ?? [];
+  const names = [
+    ...(spec.default ? [spec.default] : []),
+    ...(named.length > 0 ? [`{ ${named.join(", ")} }`] : []),
+  ];
+  const comment = spec.comment ? [spec.comment] : [];
+  const line = `${keyword} ${names.join(", ")} from ${printString(spec.module)};`;
+  if (line.length <= PRINT_WIDTH || named.length === 0) {
+    return [...comment, line].join("\n");
+  }
+  const lead = spec.default ? `${spec.default}, ` : "";
+  return [
+    ...comment,
+    `${keyword} ${lead}{`,
+    ...named.map((n) => `  ${n},`),
+    `} from ${printString(spec.module)};`,
+  ].join("\n");
+}
+
+/**
+ * One import per module (type-only imports apart), named imports in the
+ * order they were first asked for
+ */
+function mergeImports(imports: ImportSpec[]): ImportSpec[] {
+  const merged = new Map<string, ImportSpec>();
+  for (const spec of imports) {
+    const key = `${spec.typeOnly ? "type " : ""}${spec.module}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...spec, named: [...(spec.named ?? [])] });
+      continue;
+    }
+    existing.default ??= spec.default;
+    existing.comment ??= spec.comment;
+    for (const name of spec.named ?? []) {
+      if (!existing.named!.includes(name)) {
+        existing.named!.push(name);
+      }
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Source of a config module, formatted so that prettier (default
+ * options) leaves it unchanged
+ */
+export function printConfigModule(module: ConfigModule): string {
+  const sections = [module.header.join("\n")];
+  const imports = mergeImports(module.imports);
+  if (imports.length > 0) {
+    sections.push(imports.map(printImport).join("\n"));
+  }
+  for (const block of module.blocks) {
+    if (block.length > 0) {
+      sections.push(block.map(printStatement).join("\n"));
+    }
+  }
+  const lead = "export default ".length;
+  sections.push(`export default ${printValue(module.config, "", lead, 1)};`);
+  return `${sections.join("\n\n")}\n`;
+}
@@ -0,0 +1,271 @@
+// src/tools/config-verifier.ts - Checks a converted flat config against the legacy config
+
+import path from "path";
+import { ESLint, Linter } from "eslint";
+import { FlatCompat } from "@eslint/eslintrc";
+import js from "@eslint/js";
+import { LegacyConfig, LegacyConfigFile } from "./config-converter.ts";
+
+type RuleEntry = [severity: number, ...options: unknown[]];
+
+/**
+ * A rule that is configured differently for a file. `legacy` / `flat` are
+ * [severity, ...options], or null when the rule is off.
+ */
+export interface RuleDivergence {
+  file: string; // Relative to the project root
+  rule: string;
+  kind: "missing" | "added" | "severity" | "options";
+  legacy: RuleEntry | null;
+  flat: RuleEntry | null;
+}
+
+export interface VerificationReport {
+  files: string[]; // Sample files compared
+  rulesCompared: number; // Rules enabled on either side, summed over files
+  divergences: RuleDivergence[];
+  ignored: { file: string; by: "legacy" | "flat" }[]; // Linted on one side only
+  errors: { file: string; side: "legacy" | "flat"; message: string }[];
+}
+
+function relativePath(file: string, cwd: string): string {
+  return path.relative(cwd, file).split(path.sep).join("/");
+}
+
+function isInside(file: string, directory: string): boolean {
+  return directory === "" || file.startsWith(`${directory}/`);
+}
+
+/**
+ * The directory of the closest legacy config above a file, "" for the root
+ */
+function owningDirectory(file: string, nested: LegacyConfigFile[]): string {
+  let owner = "";
+  for (const { directory } of nested) {
+    if (isInside(file, directory) && directory.length > owner.length) {
+      owner = directory;
+    }
+  }
+  return owner;
+}
+
+function normalizeRule(value: unknown): RuleEntry | null {
+  const [severity, ...options] = Array.isArray(value) ? value : [value];
+  const level =
+    severity === "error" ? 2 : severity === "warn" ? 1 : Number(severity) || 0;
+  return level === 0 ? null : [level, ...options];
+}
+
+// Key order doesn't matter when comparing options
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v !== null && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : v,
+  );
+}
+
+function compareRules(
+  file: string,
+  legacy: Record<string, unknown>,
+  flat: Record<string, unknown>,
+): { compared: number; divergences: RuleDivergence[] } {
+  const divergences: RuleDivergence[] = [];
+  let compared = 0;
+
+  const ids = [...new Set([...Object.keys(legacy), ...Object.keys(flat)])];
+  for (const rule of ids.sort()) {
+    const before = normalizeRule(legacy[rule]);
+    const after = normalizeRule(flat[rule]);
+    if (before === null && after === null) {
+      continue;
+    }
+    compared++;
+
+    let kind: RuleDivergence["kind"] | null = null;
+    if (after === null) {
+      kind = "missing";
+    } else if (before === null) {
+      kind = "added";
+    } else if (before[0] !== after[0]) {
+      kind = "severity";
+    } else if (canonical(before.slice(1)) !== canonical(after.slice(1))) {
+      kind = "options";
+    }
+    if (kind) {
+      divergences.push({ file, rule, kind, legacy: before, flat: after });
+    }
+  }
+
+  return { compared, divergences };
+}
+
+/**
+ * Select up to `limit` files, spread over the directories that have their
+ * own legacy config and over file extensions, so every config is sampled
+ */
+export function sampleFiles(
+  files: string[],
+  nested: LegacyConfigFile[],
+  projectRoot: string,
+  limit: number,
+): string[] {
+  const groups = new Map<string, string[]>();
+  for (const file of [...files].sort()) {
+    const relative = relativePath(file, projectRoot);
+    const key = `${owningDirectory(relative, nested)}\0${path.extname(file)}`;
+    const group = groups.get(key) ?? [];
+    group.push(file);
+    groups.set(key, group);
+  }
+
+  // Round-robin, with each group's picks spread over its files
+  const picked: string[] = [];
+  const queues = [...groups.values()].map((group) => {
+    const share = Math.max(1, Math.ceil(limit / groups.size));
+    const step = Math.max(1, Math.floor(group.length / share));
+    return group.filter((_, i) => i % step === 0);
+  });
+  for (let round = 0; picked.length < limit; round++) {
+    const next = queues
+      .map((queue) => queue[round])
+      .filter((f): f is string => f !== undefined);
+    if (next.length === 0) {
+      break;
+    }
+    picked.push(...next.slice(0, limit - picked.length));
+  }
+  return picked;
+}
+
+/**
+ * Computes the effective config of each file twice: from the legacy
+ * configs through FlatCompat (ESLint's own eslintrc implementation), and
+ * from the generated flat config. Any rule that differs is reported.
+ */
+export class ConfigVerifier {
+  private legacyInstances = new Map<string, ESLint>();
+  private flat: ESLint;
+
+  constructor(
+    private projectRoot: string,
+    private root: LegacyConfig,
+    private nested: LegacyConfigFile[],
+    flatConfigPath: string,
+  ) {
+    this.flat = new ESLint({
+      cwd: projectRoot,
+      overrideConfigFile: flatConfigPath,
+    });
+  }
+
+  async verify(files: string[]): Promise<VerificationReport> {
+    const report: VerificationReport = {
+      files: [],
+      rulesCompared: 0,
+      divergences: [],
+      ignored: [],
+      errors: [],
+    };
+
+    for (const file of files) {
+      const relative = relativePath(file, this.projectRoot);
+      report.files.push(relative);
+
+      const legacy = await this.calculate("legacy", file, report);
+      const flat = await this.calculate("flat", file, report);
+      if (legacy === null || flat === null) {
+        continue; // Reported as an error
+      }
+      if (!legacy || !flat) {
+        if (legacy || flat) {
+          report.ignored.push({
+            file: relative,
+            by: legacy ? "flat" : "legacy",
+          });
+        }
+        continue;
+      }
+
+      const { compared, divergences } = compareRules(
+        relative,
+        legacy.rules ?? {},
+        flat.rules ?? {},
+      );
+      report.rulesCompared += compared;
+      report.divergences.push(...divergences);
+    }
+
+    return report;
+  }
+
+  /**
+   * Effective config for one side; undefined if the file is ignored,
+   * null (and an error in the report) if it couldn't be computed
+   */
+  private async calculate(
+    side: "legacy" | "flat",
+    file: string,
+    report: VerificationReport,
+  ): Promise<Linter.Config | undefined | null> {
+    try {
+      const eslint = side === "legacy" ? this.legacyFor(file) : this.flat;
+      return (await eslint.calculateConfigForFile(file)) as
+        Linter.Config | undefined;
+    } catch (err: unknown) {
+      report.errors.push({
+        file: relativePath(file, this.projectRoot),
+        side,
+        message: err instanceof Error ? err.message : String(err),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * The configs ESLint 8 would have cascaded for a file: every config
+   * above it, starting at the closest one with `root: true`
+   */
+  private legacyFor(file: string): ESLint {
+    const relative = relativePath(file, this.projectRoot);
+    const chain: LegacyConfigFile[] = [
+      { filePath: "", directory: "", config: this.root },
+      ...this.nested.filter((n) => isInside(relative, n.directory)),
+    ];
+    let start = 0;
+    chain.forEach((c, i) => {
+      if (c.config.root === true) {
+        start = i;
+      }
+    });
+    const applied = chain.slice(start);
+
+    const extension = path.extname(file);
+    const key = [extension, ...applied.map((c) => c.directory)].join("\0");
+    let eslint = this.legacyInstances.get(key);
+    if (!eslint) {
+      const configs = applied.flatMap(({ directory, config }) => {
+        const compat = new FlatCompat({
+          baseDirectory: path.join(this.projectRoot, directory),
+          resolvePluginsRelativeTo: this.projectRoot,
+          recommendedConfig: js.configs.recommended,
+          allConfig: js.configs.all,
+        });
+        const converted = compat.config(config as Linter.LegacyConfig);
+        return directory
+          ? converted.map((c) => ({ ...c, basePath: directory }))
+          : converted;
+      });
+      eslint = new ESLint({
+        cwd: this.projectRoot,
+        overrideConfigFile: true,
+        // ESLint 8 linted whatever extensions it was asked to
+        overrideConfig: [{ files: [`**/*${extension}`] }, ...configs],
+      });
+      this.legacyInstances.set(key, eslint);
+    }
+    return eslint;
+  }
+}
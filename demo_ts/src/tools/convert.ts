@@ -0,0 +1,318 @@
+// src/tools/convert.ts - Convert the legacy config to flat config and verify the result
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { parseArgs } from "util";
+import { glob } from "glob";
+import {
+  ConfigConverter,
+  ConfigFormat,
+  MODULE_DECLARATIONS_FILE,
+} from "./config-converter.ts";
+import {
+  ConfigVerifier,
+  RuleDivergence,
+  VerificationReport,
+  sampleFiles,
+} from "./config-verifier.ts";
+import {
+  findFlatConfig,
+  findLegacyConfig,
+  findNestedConfigs,
+} from "./legacy-config.ts";
+import { DEFAULT_CONFIG } from "./defaults.ts";
+import { parseInteger } from "./cli.ts";
+
+const projectRoot = process.cwd();
+
+interface ConvertCliOptions {
+  help: boolean;
+  configPath: string | null; // Legacy config (default: found in the project root)
+  output: string;
+  force: boolean;
+  verify: boolean;
+  samples: number;
+  reportFile: string | null;
+  patterns: string[];
+}
+
+function parseConvertArgs(argv: string[]): ConvertCliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      help: { type: "boolean", short: "h" },
+      config: { type: "string", short: "c" },
+      output: { type: "string", short: "o" },
+      force: { type: "boolean" },
+      "no-verify": { type: "boolean" },
+      samples: { type: "string" },
+      report: { type: "string" },
+    },
+  });
+
+  return {
+    help: values.help ?? false,
+    configPath: values.config ?? null,
+    output: values.output ?? "eslint.config.mjs",
+    force: values.force ?? false,
+    verify: !values["no-verify"],
+    samples: parseInteger("samples", values.samples, 20),
+    reportFile: values.report ?? null,
+    patterns: positionals.length > 0 ? positionals : DEFAULT_CONFIG.patterns,
+  };
+}
+
+function printHelp(): void {
+  console.log(`
+Usage: npm run convert -- [options] [files or globs...]
+
+Writes the flat config for the project's legacy config, then checks on a
+sample of the files (default: ${DEFAULT_CONFIG.patterns.join(" ")}) that
+every rule ends up with the same severity and options as before.
+
+Options:
+  -c, --config <path>   Legacy config (default: .eslintrc.* or eslintConfig in
+                        package.json, plus the configs of subdirectories)
+  -o, --output <path>   Flat config to write, inside the project (default:
+                        eslint.config.mjs); a .ts/.mts/.cts file gets
+                        TypeScript, type-checked
+  --force               Overwrite the output file if it exists
+  --no-verify           Only convert
+  --samples <n>         Files to compare the effective configs of (default: 20)
+  --report <path>       Also write the verification report as JSON
+  -h, --help            Show this help
+`);
+}
+
+// ============ Reporting ============
+
+function formatEntry(entry: RuleDivergence["legacy"]): string {
+  if (entry === null) {
+    return "off";
+  }
+  const [severity, ...options] = entry;
+  const level = ["off", "warn", "error"][severity] ?? String(severity);
+  return options.length > 0
+    ? JSON.stringify([level, ...options])
+    : `"${level}"`;
+}
+
+function printReport(report: VerificationReport): void {
+  console.log(
+    `✓ Compared ${report.rulesCompared} rule settings on ${report.files.length} files`,
+  );
+
+  // The same difference usually shows up in every file of a package
+  const grouped = new Map<string, RuleDivergence[]>();
+  for (const d of report.divergences) {
+    const key = [
+      d.rule,
+      d.kind,
+      formatEntry(d.legacy),
+      formatEntry(d.flat),
+    ].join("\0");
+    const group = grouped.get(key) ?? [];
+    group.push(d);
+    grouped.set(key, group);
+  }
+
+  if (grouped.size > 0) {
+    console.log(`\n❌ ${grouped.size} rule divergences:`);
+    for (const [first, ...rest] of grouped.values()) {
+      const where =
+        rest.length > 0 ? `${first!.file} +${rest.length}` : first!.file;
+      console.log(
+        `  - ${first!.rule} (${first!.kind}): ${formatEntry(first!.legacy)} → ${formatEntry(first!.flat)}  [${where}]`,
+      );
+    }
+  }
+
+  if (report.ignored.length > 0) {
+    console.log(`\n❌ Linted by only one config:`);
+    for (const { file, by } of report.ignored) {
+      console.log(`  - ${file}: ignored by the ${by} config`);
+    }
+  }
+
+  if (report.errors.length > 0) {
+    console.log(`\n❌ Effective config could not be computed:`);
+    for (const { file, side, message } of report.errors) {
+      console.log(`  - ${file} (${side}): ${message.split("\n")[0]}`);
+    }
+  }
+}
+
+function formatOf(outputPath: string): ConfigFormat {
+  return /\.[cm]?ts$/.test(outputPath) ? "ts" : "mjs";
+}
+
+// ============ Main ============
+async function main(): Promise<void> {
+  let options: ConvertCliOptions;
+  try {
+    options = parseConvertArgs(process.argv.slice(2));
+  } catch (err: unknown) {
+    console.error(`❌ ${err instanceof Error ? err.message : String(err)}`);
+    console.error("   Run with --help to see the available options");
+    process.exit(1);
+  }
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  console.log("🔄 ESLint Config Conversion\n");
+
+  // 1. Load the legacy configs
+  const legacyConfigPath = options.configPath
+    ? path.resolve(projectRoot, options.configPath)
+    : findLegacyConfig(projectRoot);
+  if (!legacyConfigPath || !fs.existsSync(legacyConfigPath)) {
+    console.error(
+      `❌ No ${options.configPath ?? ".eslintrc.* or package.json eslintConfig"} found`,
+    );
+    process.exit(1);
+  }
+
+  // The config imports its plugins by name, which only resolves from the
+  // project's node_modules
+  const outputPath = path.resolve(projectRoot, options.output);
+  const fromRoot = path.relative(projectRoot, outputPath);
+  if (fromRoot.startsWith(`..${path.sep}`) || path.isAbsolute(fromRoot)) {
+    console.error(
+      `❌ ${options.output} is outside the project; its imports would not resolve from there`,
+    );
+    process.exit(1);
+  }
+  if (fs.existsSync(outputPath) && !options.force) {
+    console.error(
+      `❌ ${options.output} already exists, use --force to overwrite it`,
+    );
+    process.exit(1);
+  }
+
+  const legacyConfig = ConfigConverter.loadLegacyConfig(legacyConfigPath);
+  const nested = await findNestedConfigs(projectRoot, [
+    `${DEFAULT_CONFIG.outputDir}/**`,
+  ]);
+  console.log(
+    `✓ Legacy config loaded (${path.relative(projectRoot, legacyConfigPath)})`,
+  );
+  if (nested.length > 0) {
+    console.log(`  Nested: ${nested.map((n) => n.filePath).join(", ")}`);
+  }
+
+  // 2. Convert
+  const format = formatOf(outputPath);
+  const { source, declarations, warnings } = ConfigConverter.convert(
+    legacyConfig,
+    {
+      cwd: projectRoot,
+      nested,
+      tsconfigRootDir: projectRoot,
+      configDir: path.dirname(outputPath),
+      format,
+    },
+  );
+  for (const w of warnings) {
+    console.log(`  ⚠️ ${w.path}: ${w.message}`);
+  }
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  ConfigConverter.writeFlatConfig(source, outputPath, declarations);
+  const declarationsNote =
+    declarations === null
+      ? ""
+      : ` (untyped packages declared in ${MODULE_DECLARATIONS_FILE})`;
+  console.log(
+    `✓ Flat config written to ${options.output}${declarationsNote}\n`,
+  );
+
+  if (format === "ts") {
+    const diagnostics = await ConfigConverter.typeCheck(
+      outputPath,
+      projectRoot,
+    );
+    if (diagnostics.length > 0) {
+      console.error(`❌ ${options.output} does not type-check:`);
+      for (const d of diagnostics) {
+        console.error(`  ${d.replace(/\n/g, "\n  ")}`);
+      }
+      process.exit(1);
+    }
+    console.log(`✓ ${options.output} type-checks\n`);
+  }
+
+  const existing = findFlatConfig(projectRoot);
+  if (existing && existing !== outputPath) {
+    console.log(
+      `⚠️ ESLint will use ${path.basename(existing)} before ${options.output}\n`,
+    );
+  }
+
+  if (!options.verify) {
+    return;
+  }
+
+  // 3. Compare the effective configs on a sample of the files
+  const files = await glob(options.patterns, {
+    cwd: projectRoot,
+    absolute: true,
+    nodir: true,
+    ignore: ["**/node_modules/**"],
+  });
+  const samples = sampleFiles(files, nested, projectRoot, options.samples);
+
+  // ESLint loads TypeScript configs only with jiti installed; the same
+  // config rendered as JavaScript into a temp directory is checked instead
+  let flatConfigPath = outputPath;
+  let renderDir: string | null = null;
+  let report: VerificationReport;
+  try {
+    if (format === "ts") {
+      renderDir = fs.mkdtempSync(path.join(os.tmpdir(), "eslint-convert-"));
+      flatConfigPath = path.join(renderDir, "eslint.config.mjs");
+      const rendered = ConfigConverter.convert(legacyConfig, {
+        cwd: projectRoot,
+        nested,
+        tsconfigRootDir: projectRoot,
+        // Resolved from the project, not from the temp directory
+        absoluteImports: true,
+      });
+      ConfigConverter.writeFlatConfig(rendered.source, flatConfigPath);
+    }
+    const verifier = new ConfigVerifier(
+      projectRoot,
+      legacyConfig,
+      nested,
+      flatConfigPath,
+    );
+    report = await verifier.verify(samples);
+  } finally {
+    if (renderDir !== null) {
+      fs.rmSync(renderDir, { recursive: true, force: true });
+    }
+  }
+  printReport(report);
+
+  if (options.reportFile) {
+    fs.writeFileSync(options.reportFile, JSON.stringify(report, null, 2));
+    console.log(`\n📁 Report: ${options.reportFile}`);
+  }
+
+  const failed =
+    report.divergences.length > 0 ||
+    report.ignored.length > 0 ||
+    report.errors.length > 0;
+  if (!failed) {
+    console.log("\n✅ Converted config matches the legacy config");
+  }
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch((err: unknown) => {
+  const message = err instanceof Error ? err.message : String(err);
+  console.error(`💥 Conversion error: ${message}`);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+// src/tools/defaults.ts - Default orchestrator options
+
+import { OrchestratorConfig } from "./types.ts";
+
+/**
+ * Kept apart from the orchestrator so the other tools can use the same
+ * defaults without loading it
+ */
+export const DEFAULT_CONFIG: OrchestratorConfig = {
+  patterns: ["src/**/*.ts"],
+  ignore: [],
+  configPath: null,
+  outputDir: "lint-output",
+  maxWorkers: 2,
+  maxRetries: 2,
+  memoryThresholdPercent: 75,
+  containerLimitMB: null,
+  defaultWorkerCostMB: 512,
+  initialBatchDivisor: 4,
+  batchStrategy: "naive",
+  workerMaxBatches: 4,
+  workerRecycleRSSMB: 1536,
+  batchTimeoutMs: 5 * 60 * 1000,
+  heartbeatTimeoutMs: 15000,
+  stallTimeoutMs: 2 * 60 * 1000,
+  killGraceMs: 5000,
+  cache: false,
+  cacheLocation: ".eslint-parallel-cache.json",
+  changedSince: null,
+  includeDependents: false,
+  onlyChangedLines: false,
+  suppressionsFile: "lint-suppressions.json",
+  updateSuppressions: false,
+  fix: "off",
+  fixPatch: null,
+  failOn: "error",
+  maxWarnings: null,
+  ruleBudgets: {},
+};
@@ -0,0 +1,179 @@
+// src/tools/diff.ts - Line-based unified diff for fix patches
+
+const NO_EOL = "\\ No newline at end of file";
+
+interface Line {
+  text: string;
+  key: string; // What lines are compared by: a missing final newline counts
+}
+
+interface Op {
+  type: " " | "-" | "+";
+  line: Line;
+}
+
+function splitLines(text: string): Line[] {
+  if (text.length === 0) {
+    return [];
+  }
+  const texts = text.split("\n");
+  const hasEOL = texts[texts.length - 1] === "";
+  if (hasEOL) {
+    texts.pop();
+  }
+  return texts.map((t, i) => ({
+    text: t,
+    key: !hasEOL && i === texts.length - 1 ? `${t}\0${NO_EOL}` : t,
+  }));
+}
+
+// Largest LCS table (cells) worth building; past it the changed middle is
+// replaced as a whole, which is a valid if less minimal patch
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Edit script between two line arrays: the common prefix and suffix are
+ * trimmed first (fixes are usually local), the middle is an LCS table
+ */
+function diffLines(a: Line[], b: Line[]): Op[] {
+  let start = 0;
+  while (
+    start < a.length &&
+    start < b.length &&
+    a[start]!.key === b[start]!.key
+  ) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (
+    endA > start &&
+    endB > start &&
+    a[endA - 1]!.key === b[endB - 1]!.key
+  ) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const ops: Op[] = a.slice(0, start).map((line) => ({ type: " ", line }));
+  const suffix: Op[] = a.slice(endA).map((line) => ({ type: " ", line }));
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    for (const line of a.slice(start, endA)) {
+      ops.push({ type: "-", line });
+    }
+    for (const line of b.slice(start, endB)) {
+      ops.push({ type: "+", line });
+    }
+    return [...ops, ...suffix];
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of a[start + i..endA) and b[start + j..endB)
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        a[start + i]!.key === b[start + j]!.key
+          ? lcs[(i + 1) * (m + 1) + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j]!, lcs[i * (m + 1) + j + 1]!);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i]!.key === b[start + j]!.key) {
+      ops.push({ type: " ", line: a[start + i]! });
+      i++;
+      j++;
+    } else if (
+      i < n &&
+      (j === m || lcs[(i + 1) * (m + 1) + j]! >= lcs[i * (m + 1) + j + 1]!)
+    ) {
+      // Removals first on ties, like git
+      ops.push({ type: "-", line: a[start + i]! });
+      i++;
+    } else {
+      ops.push({ type: "+", line: b[start + j]! });
+      j++;
+    }
+  }
+  return [...ops, ...suffix];
+}
+
+function formatRange(start: number, count: number): string {
+  // An empty range names the line before it
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+/**
+ * Unified diff of one file in the a/ b/ form `git apply` and `patch -p1`
+ * accept. Empty string when the contents are equal.
+ */
+export function createUnifiedDiff(
+  file: string,
+  before: string,
+  after: string,
+  context = 3,
+): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changes = ops
+    .map((op, index) => (op.type === " " ? -1 : index))
+    .filter((index) => index >= 0);
+  if (changes.length === 0) {
+    return "";
+  }
+
+  const out = [`--- a/${file}`, `+++ b/${file}`];
+  let c = 0;
+  while (c < changes.length) {
+    // Extend the hunk while the next change is within 2 × context lines
+    let last = c;
+    while (
+      last + 1 < changes.length &&
+      changes[last + 1]! - changes[last]! <= 2 * context + 1
+    ) {
+      last++;
+    }
+    const from = Math.max(0, changes[c]! - context);
+    const to = Math.min(ops.length, changes[last]! + context + 1);
+
+    // Line positions at the start of the hunk
+    let oldStart = 0;
+    let newStart = 0;
+    for (const op of ops.slice(0, from)) {
+      if (op.type !== "+") {
+        oldStart++;
+      }
+      if (op.type !== "-") {
+        newStart++;
+      }
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (const op of ops.slice(from, to)) {
+      if (op.type !== "+") {
+        oldCount++;
+      }
+      if (op.type !== "-") {
+        newCount++;
+      }
+      body.push(`${op.type}${op.line.text}`);
+      if (op.line.key !== op.line.text) {
+        body.push(NO_EOL);
+      }
+    }
+
+    out.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+      ...body,
+    );
+    c = last + 1;
+  }
+
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,233 @@
+// src/tools/event-log.ts - NDJSON log of every orchestrator event and worker message
+
+import fs from "fs";
+import { EventEmitter } from "events";
+import { Batch, OrchestratorEvents, WorkerMessage } from "./types.ts";
+
+// Fields of an entry; a `batch` is replaced by its id and lineage
+type Fields = { workerId?: number; batch?: Batch | null } & Record<
+  string,
+  unknown
+>;
+
+// A worker message with its results cut down to counts
+type CompactMessage =
+  | { type: "memory"; rss: number; heapUsed: number }
+  | { type: "file"; file: string; errors: number; warnings: number }
+  | { type: "complete"; peakRSS: number; duration: number }
+  | Extract<WorkerMessage, { type: "error" }>;
+
+function compactMessage(message: WorkerMessage): CompactMessage {
+  switch (message.type) {
+    case "memory":
+      return { type: "memory", rss: message.rss, heapUsed: message.heapUsed };
+    case "file":
+      return {
+        type: "file",
+        file: message.file,
+        errors: message.results.reduce((n, r) => n + r.errorCount, 0),
+        warnings: message.results.reduce((n, r) => n + r.warningCount, 0),
+      };
+    case "complete":
+      return {
+        type: "complete",
+        peakRSS: message.peakRSS,
+        duration: message.duration,
+      };
+    case "error":
+      return { ...message };
+  }
+}
+
+/**
+ * What is logged per event (null: not logged). Results are cut down to
+ * counts so the log stays small on large runs; only batches keep their
+ * file lists, to tell which files a crashed batch held.
+ */
+const SERIALIZERS = {
+  "run:start": (e) => ({ ...e }),
+  "config:detected": (e) => ({ ...e }),
+  "config:loaded": (e) => ({ ...e, warnings: e.warnings.length }),
+  "files:found": (e) => ({ patterns: e.patterns, files: e.files.length }),
+  "changes:detected": (e) => ({
+    ref: e.ref,
+    base: e.base,
+    changed: e.changed.length,
+    dependents: e.dependents.length,
+  }),
+  "cache:checked": (e) => ({
+    cacheFile: e.cacheFile,
+    cached: e.cached.length,
+    toLint: e.toLint.length,
+  }),
+  "batches:created": (e) => ({
+    strategy: e.strategy,
+    batches: e.batches.map((b) => ({
+      id: b.id,
+      files: b.files.length,
+      tsconfig: b.tsconfig,
+    })),
+  }),
+  "batch:start": (e) => ({ ...e, files: e.batch.files }),
+  "file:complete": () => null, // Logged as its worker:message
+  "batch:complete": () => null, // Logged as its worker:message
+  "batch:retry": (e) => ({
+    batch: e.batch,
+    reason: e.reason,
+    message: e.message,
+    children: e.children.map((c) => ({ id: c.id, files: c.files })),
+  }),
+  failure: (e) => ({
+    batch: e.batch,
+    notRetried: e.notRetried,
+    failures: e.failures,
+  }),
+  "worker:spawn": (e) => ({ ...e }),
+  "worker:message": (e) => ({
+    workerId: e.workerId,
+    batch: e.batch,
+    message: compactMessage(e.message),
+  }),
+  // Logged as its worker:message; a failed spawn shows as the failure after
+  "worker:error": () => null,
+  "worker:output": (e) => ({ ...e }),
+  "worker:timeout": (e) => ({ ...e }),
+  "worker:sigkill": (e) => ({ ...e }),
+  "worker:retire": (e) => ({ ...e }),
+  "worker:exit": (e) => ({ ...e }),
+  "suppressions:updated": (e) => ({ ...e }),
+  "run:complete": ({ summary }) => ({
+    totalFiles: summary.totalFiles,
+    processedFiles: summary.processedFiles,
+    failedFiles: summary.failedFiles,
+    totalErrors: summary.totalErrors,
+    totalWarnings: summary.totalWarnings,
+    exitCode: summary.gate.exitCode,
+  }),
+} satisfies {
+  [K in keyof OrchestratorEvents]: (
+    ...args: OrchestratorEvents[K]
+  ) => Fields | null;
+};
+
+interface EntryBase {
+  time: string; // ISO timestamp
+  elapsedMs: number; // Since the log was opened
+  workerId?: number;
+  batchId?: number;
+  parentId?: number; // Batch this one was split from
+  lineage?: number[];
+}
+
+type Serialized<K extends keyof OrchestratorEvents> = NonNullable<
+  ReturnType<(typeof SERIALIZERS)[K]>
+>;
+
+// Events that are logged under their own name
+type LoggedEvent = {
+  [K in keyof OrchestratorEvents]: [Serialized<K>] extends [never] ? never : K;
+}[keyof OrchestratorEvents];
+
+/**
+ * One line of the log, discriminated by `event`. Batch fields are set on
+ * every event about a batch; `lineage` runs from the initial batch down
+ * to this one.
+ */
+export type LogEntry =
+  | {
+      [K in LoggedEvent]: EntryBase & { event: K } & Omit<
+          Serialized<K>,
+          "batch" | "workerId"
+        >;
+    }[LoggedEvent]
+  | (EntryBase & { event: "run:error"; message: string });
+
+/**
+ * Writes one JSON line per event, synchronously, so the log is complete
+ * up to the moment the master itself dies
+ */
+export class EventLog {
+  private fd: number;
+  private startTime = Date.now();
+  private parents = new Map<number, number | undefined>();
+
+  constructor(readonly file: string) {
+    this.fd = fs.openSync(file, "w");
+  }
+
+  /**
+   * Log every event of an orchestrator until its run completes
+   */
+  attach(emitter: EventEmitter<OrchestratorEvents>): void {
+    for (const event of Object.keys(SERIALIZERS) as Array<
+      keyof OrchestratorEvents
+    >) {
+      const serialize = SERIALIZERS[event] as (
+        ...args: unknown[]
+      ) => Fields | null;
+      emitter.on(event, (...args: unknown[]) => {
+        const fields = serialize(...args);
+        if (fields !== null) {
+          this.record(event, fields);
+        }
+      });
+    }
+    emitter.once("run:complete", () => this.close());
+  }
+
+  record(event: keyof OrchestratorEvents | "run:error", fields: Fields): void {
+    if (this.fd < 0) {
+      return;
+    }
+    const { batch, ...rest } = fields;
+    const now = Date.now();
+    const entry: EntryBase & Record<string, unknown> = {
+      time: new Date(now).toISOString(),
+      elapsedMs: now - this.startTime,
+      event,
+      ...rest,
+    };
+    if (batch) {
+      this.parents.set(batch.id, batch.parentId);
+      entry.batchId = batch.id;
+      entry.parentId = batch.parentId;
+      entry.lineage = this.lineage(batch.id);
+    }
+    fs.writeSync(this.fd, `${JSON.stringify(entry)}\n`);
+  }
+
+  close(): void {
+    if (this.fd >= 0) {
+      fs.closeSync(this.fd);
+      this.fd = -1;
+    }
+  }
+
+  private lineage(batchId: number): number[] {
+    const ids = [batchId];
+    let parent = this.parents.get(batchId);
+    while (parent !== undefined) {
+      ids.unshift(parent);
+      parent = this.parents.get(parent);
+    }
+    return ids;
+  }
+}
+
+/**
+ * Entries of a log file; a line cut short by a crash is skipped
+ */
+export function readEventLog(file: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as LogEntry);
+    } catch {
+      // Truncated last line
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,128 @@
+// src/tools/exit-codes.ts - Exit codes and the pass/fail gate for CI
+
+import { ESLint } from "eslint";
+import { FailedFile, FailOn } from "./types.ts";
+
+/**
+ * The most severe cause wins: a broken config makes every other count
+ * meaningless, and files that couldn't be linted may hide errors
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  lint: 1, // The gate failed on lint results, or files failed to parse
+  infrastructure: 2, // Files not linted: OOM, crash, timeout
+  config: 3, // Invalid options or ESLint config
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+/**
+ * Thrown for problems the user has to fix in their options or ESLint
+ * config, as opposed to failures while linting
+ */
+export class ConfigurationError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ConfigurationError";
+  }
+}
+
+export interface GatePolicy {
+  failOn: FailOn;
+  maxWarnings: number | null; // null = no limit
+  ruleBudgets: Record<string, number>; // Errors a rule may report without failing
+}
+
+export interface GateResult extends GatePolicy {
+  passed: boolean;
+  exitCode: ExitCode;
+  errors: number; // Errors of rules without a budget (and fatal ones)
+  warnings: number;
+  budgets: { rule: string; budget: number; errors: number }[];
+  reasons: string[]; // Why the run failed, most severe first
+}
+
+/**
+ * Decide the exit code of a run from its (reported) results and the
+ * files that could not be linted
+ */
+export function evaluateGate(
+  results: ESLint.LintResult[],
+  failures: FailedFile[],
+  policy: GatePolicy,
+): GateResult {
+  const ruleErrors = new Map<string, number>();
+  let errors = 0;
+  let warnings = 0;
+  for (const result of results) {
+    warnings += result.warningCount;
+    for (const message of result.messages) {
+      if (message.severity !== 2) {
+        continue;
+      }
+      const rule = message.ruleId;
+      if (rule !== null && rule in policy.ruleBudgets) {
+        ruleErrors.set(rule, (ruleErrors.get(rule) ?? 0) + 1);
+      } else {
+        errors++;
+      }
+    }
+  }
+
+  const budgets = Object.entries(policy.ruleBudgets).map(([rule, budget]) => ({
+    rule,
+    budget,
+    errors: ruleErrors.get(rule) ?? 0,
+  }));
+
+  const reasons: string[] = [];
+  const configFailures = failures.filter((f) => f.reason === "config_error");
+  if (configFailures.length > 0) {
+    reasons.push(`${configFailures.length} files have an invalid config`);
+  }
+  // Unparsable source is the file's fault, so it fails like a lint
+  // error, as plain ESLint's fatal parse errors do, whatever --fail-on says
+  const parseFailures = failures.filter((f) => f.reason === "parse_error");
+  const notLinted =
+    failures.length - configFailures.length - parseFailures.length;
+  if (notLinted > 0) {
+    reasons.push(`${notLinted} files could not be linted`);
+  }
+  if (parseFailures.length > 0) {
+    reasons.push(`${parseFailures.length} files could not be parsed`);
+  }
+
+  if (policy.failOn !== "none" && errors > 0) {
+    reasons.push(`${errors} errors`);
+  }
+  if (policy.failOn === "warning" && warnings > 0) {
+    reasons.push(`${warnings} warnings`);
+  }
+  if (policy.maxWarnings !== null && warnings > policy.maxWarnings) {
+    reasons.push(`${warnings} warnings (max ${policy.maxWarnings})`);
+  }
+  for (const b of budgets) {
+    if (b.errors > b.budget) {
+      reasons.push(`${b.rule}: ${b.errors} errors (budget ${b.budget})`);
+    }
+  }
+
+  let exitCode: ExitCode = EXIT_CODES.ok;
+  if (configFailures.length > 0) {
+    exitCode = EXIT_CODES.config;
+  } else if (notLinted > 0) {
+    exitCode = EXIT_CODES.infrastructure;
+  } else if (reasons.length > 0) {
+    exitCode = EXIT_CODES.lint;
+  }
+
+  return {
+    ...policy,
+    passed: exitCode === EXIT_CODES.ok,
+    exitCode,
+    errors,
+    warnings,
+    budgets,
+    reasons,
+  };
+}
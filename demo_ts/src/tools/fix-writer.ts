@@ -0,0 +1,112 @@
+// src/tools/fix-writer.ts - Conflict-safe write-back of fixes computed by workers
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { ESLint } from "eslint";
+import { createUnifiedDiff } from "./diff.ts";
+import { FixMode } from "./types.ts";
+
+export interface FixOutcome {
+  mode: FixMode;
+  fixedFiles: string[]; // Written, or would be written in dry-run / patch mode
+  conflicts: string[]; // Changed on disk since discovery, left untouched
+  patchFile: string | null;
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Write to a temp file next to the target, then rename over it, so a
+ * crash never leaves a half-written source file. A symlink is followed so
+ * the rename replaces its target instead of the link itself.
+ */
+function writeAtomic(file: string, content: string): void {
+  const target = fs.realpathSync(file);
+  const tmp = path.join(
+    path.dirname(target),
+    `.${path.basename(target)}.${process.pid}.fix.tmp`,
+  );
+  const { mode } = fs.statSync(target);
+  try {
+    fs.writeFileSync(tmp, content);
+    // The mode option of writeFileSync is masked by the umask
+    fs.chmodSync(tmp, mode);
+    fs.renameSync(tmp, target);
+  } catch (err: unknown) {
+    fs.rmSync(tmp, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Remembers what each file looked like when it was discovered and only
+ * applies a fix if the file is still exactly that
+ */
+export class FixWriter {
+  private snapshots = new Map<string, string>();
+
+  constructor(
+    private mode: FixMode,
+    private patchFile: string | null,
+    private projectRoot: string,
+  ) {}
+
+  snapshot(files: string[]): void {
+    for (const file of files) {
+      this.snapshots.set(
+        path.resolve(file),
+        hashContent(fs.readFileSync(file, "utf8")),
+      );
+    }
+  }
+
+  /**
+   * Write fixed output back (or collect it into the patch file). Results
+   * without `output` had nothing to fix.
+   */
+  apply(results: ESLint.LintResult[]): FixOutcome {
+    const fixedFiles: string[] = [];
+    const conflicts: string[] = [];
+    const patches: string[] = [];
+
+    for (const result of results) {
+      if (result.output === undefined) {
+        continue;
+      }
+      const file = path.resolve(result.filePath);
+      const current = fs.existsSync(file)
+        ? fs.readFileSync(file, "utf8")
+        : null;
+      if (
+        current === null ||
+        hashContent(current) !== this.snapshots.get(file)
+      ) {
+        conflicts.push(file);
+        continue;
+      }
+
+      if (this.patchFile !== null) {
+        const relative = path
+          .relative(this.projectRoot, file)
+          .split(path.sep)
+          .join("/");
+        patches.push(createUnifiedDiff(relative, current, result.output));
+      } else if (this.mode === "write") {
+        writeAtomic(file, result.output);
+      }
+      fixedFiles.push(file);
+    }
+
+    let patchFile: string | null = null;
+    if (this.patchFile !== null) {
+      patchFile = path.resolve(this.projectRoot, this.patchFile);
+      fs.mkdirSync(path.dirname(patchFile), { recursive: true });
+      fs.writeFileSync(patchFile, patches.join(""));
+    }
+
+    return { mode: this.mode, fixedFiles, conflicts, patchFile };
+  }
+}
@@ -0,0 +1,192 @@
+// src/tools/git-changes.ts - Changed files and lines from the local git repository
+
+import { execFileSync } from "child_process";
+import path from "path";
+import { ESLint } from "eslint";
+import { withMessages } from "./report.ts";
+
+// Changed line numbers per absolute path; null means the whole file is new
+export type ChangedLines = Map<string, Set<number> | null>;
+
+export interface GitChanges {
+  base: string; // Merge base of the ref and HEAD that was diffed against
+  files: string[]; // Added, modified, renamed and untracked files (absolute)
+  lines: ChangedLines;
+}
+
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync("git", ["-c", "core.quotePath=false", ...args], {
+      cwd,
+      encoding: "utf8",
+      maxBuffer: 256 * 1024 * 1024,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+  } catch (err: unknown) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(
+      `git ${args.join(" ")} failed: ${stderr || (err instanceof Error ? err.message : String(err))}`,
+    );
+  }
+}
+
+/**
+ * The path in a `+++` header. Git appends a tab to names containing spaces
+ * and C-quotes names with control characters, quotes or backslashes.
+ */
+function headerPath(target: string): string {
+  const name = target.replace(/\t$/, "");
+  if (!name.startsWith('"')) {
+    return name;
+  }
+
+  const escapes: Record<string, number> = {
+    a: 7,
+    b: 8,
+    t: 9,
+    n: 10,
+    v: 11,
+    f: 12,
+    r: 13,
+    '"': 34,
+    "\\": 92,
+  };
+  const bytes: number[] = [];
+  const body = Buffer.from(name.slice(1, -1), "utf8");
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== 92) {
+      bytes.push(body[i]!);
+      continue;
+    }
+    const octal = /^[0-7]{3}/.exec(body.subarray(i + 1, i + 4).toString());
+    if (octal) {
+      bytes.push(parseInt(octal[0], 8));
+      i += 3;
+    } else {
+      const next = String.fromCharCode(body[++i]!);
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+    }
+  }
+  return Buffer.from(bytes).toString("utf8");
+}
+
+/**
+ * Parse `git diff -U0 --dst-prefix=b/` output into the added/modified line
+ * numbers of the new side of each file
+ */
+function parseHunks(diff: string, cwd: string): ChangedLines {
+  const lines: ChangedLines = new Map();
+  let current: Set<number> | null = null;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++ ")) {
+      const target = line.slice(4);
+      current = null;
+      if (target !== "/dev/null") {
+        current = new Set();
+        lines.set(path.resolve(cwd, headerPath(target).slice(2)), current);
+      }
+      continue;
+    }
+
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunk && current) {
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      for (let i = 0; i < count; i++) {
+        current.add(start + i);
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Files and lines changed between the merge base of `ref` and the working
+ * tree, including uncommitted and untracked files. Paths are limited to
+ * `cwd` and its subdirectories. Only the local repository is consulted.
+ */
+export function getGitChanges(ref: string, cwd: string): GitChanges {
+  const base = git(cwd, ["merge-base", ref, "HEAD"]).trim();
+
+  // -z output: status, then one path (two for renames), NUL separated
+  const fields = git(cwd, [
+    "diff",
+    "--name-status",
+    "-z",
+    "-M",
+    "--diff-filter=AMR",
+    "--relative",
+    base,
+    "--",
+  ])
+    .split("\0")
+    .filter((field) => field.length > 0);
+
+  const files = new Set<string>();
+  for (let i = 0; i < fields.length;) {
+    const status = fields[i++] ?? "";
+    if (status.startsWith("R")) {
+      i++; // Old path; the new one follows
+    }
+    const file = fields[i++];
+    if (file) {
+      files.add(path.resolve(cwd, file));
+    }
+  }
+
+  // Explicit prefixes: diff.noprefix and diff.mnemonicPrefix change them
+  const lines = parseHunks(
+    git(cwd, [
+      "diff",
+      "-U0",
+      "-M",
+      "--relative",
+      "--src-prefix=a/",
+      "--dst-prefix=b/",
+      base,
+      "--",
+    ]),
+    cwd,
+  );
+
+  const untracked = git(cwd, [
+    "ls-files",
+    "--others",
+    "--exclude-standard",
+    "-z",
+  ])
+    .split("\0")
+    .filter((file) => file.length > 0);
+  for (const file of untracked) {
+    const absolute = path.resolve(cwd, file);
+    files.add(absolute);
+    lines.set(absolute, null);
+  }
+
+  return { base, files: [...files].sort(), lines };
+}
+
+/**
+ * Keep only messages on changed lines (plus fatal ones, which have no
+ * meaningful line) and recompute the counts to match
+ */
+export function filterToChangedLines(
+  results: ESLint.LintResult[],
+  changed: ChangedLines,
+): ESLint.LintResult[] {
+  return results.map((result) => {
+    const lines = changed.get(path.resolve(result.filePath));
+    if (lines === null) {
+      return result;
+    }
+
+    return withMessages(
+      result,
+      result.messages.filter(
+        (m) => m.fatal === true || (lines?.has(m.line) ?? false),
+      ),
+    );
+  });
+}
@@ -0,0 +1,517 @@
+// src/tools/html-report.ts - Self-contained HTML report of a run, built from lint-output
+
+import fs from "fs";
+import path from "path";
+import { ESLint } from "eslint";
+import { LogEntry, readEventLog } from "./event-log.ts";
+import { MemorySample, Summary } from "./types.ts";
+
+export interface HtmlReportInput {
+  outputDir: string; // Holds the memory timelines and events.ndjson
+  cwd: string; // File paths are shown relative to this
+  summary: Summary;
+  results: ESLint.LintResult[]; // As reported (after suppressions)
+}
+
+interface Series {
+  label: string;
+  points: [seconds: number, mb: number][];
+}
+
+interface Segment {
+  batchId: number;
+  start: number;
+  end: number | null; // null: still running when the log ends
+  files: number;
+  outcome: "ok" | "failed";
+}
+
+interface Lifetime {
+  workerId: number;
+  start: number;
+  end: number | null;
+  segments: Segment[];
+}
+
+interface BatchNode {
+  id: number;
+  parentId?: number;
+  files: number;
+  outcome: string; // "ok", "split (oom)", "failed (oom)", ...
+}
+
+const COLORS = [
+  "#38bdf8",
+  "#22c55e",
+  "#f59e0b",
+  "#a78bfa",
+  "#f472b6",
+  "#2dd4bf",
+  "#fb923c",
+  "#94a3b8",
+];
+const CHART_WIDTH = 960;
+const MAX_POINTS = 600; // Per series; longer timelines are thinned out
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function mb(bytes: number): number {
+  return Math.round(bytes / 1024 / 1024);
+}
+
+function readJson<T>(file: string, fallback: T): T {
+  return fs.existsSync(file)
+    ? (JSON.parse(fs.readFileSync(file, "utf8")) as T)
+    : fallback;
+}
+
+function thin<T>(items: T[]): T[] {
+  const step = Math.ceil(items.length / MAX_POINTS);
+  return step <= 1 ? items : items.filter((_, i) => i % step === 0);
+}
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+// ============ Data ============
+
+function masterTimeline(outputDir: string): { ts: number; rss: number }[] {
+  return readJson(path.join(outputDir, "master-memory.json"), []);
+}
+
+/**
+ * Memory timelines in seconds since `start`: the master, then each worker
+ */
+function loadMemory(input: HtmlReportInput, start: number): Series[] {
+  const toPoint = (ts: number, rss: number): [number, number] => [
+    (ts - start) / 1000,
+    mb(rss),
+  ];
+  const master = masterTimeline(input.outputDir);
+  const series: Series[] = [
+    { label: "master", points: thin(master).map((s) => toPoint(s.ts, s.rss)) },
+  ];
+  for (const worker of input.summary.workers) {
+    const samples = readJson<MemorySample[]>(
+      path.join(input.outputDir, `worker-${worker.id}-memory.json`),
+      [],
+    );
+    series.push({
+      label: `worker ${worker.id}`,
+      points: thin(samples).map((s) => toPoint(s.timestamp, s.rss)),
+    });
+  }
+  return series;
+}
+
+/**
+ * Worker lifetimes and the batches they ran, from the event log
+ */
+function loadLifetimes(entries: LogEntry[]): Lifetime[] {
+  const workers = new Map<number, Lifetime>();
+  const running = new Map<number, Segment>(); // By worker
+  const finish = (workerId: number, at: number, ok: boolean) => {
+    const segment = running.get(workerId);
+    if (segment) {
+      segment.end = at;
+      segment.outcome = ok ? "ok" : "failed";
+      running.delete(workerId);
+    }
+  };
+
+  for (const e of entries) {
+    if (e.workerId === undefined) {
+      continue;
+    }
+    const at = e.elapsedMs;
+    if (e.event === "worker:spawn") {
+      workers.set(e.workerId, {
+        workerId: e.workerId,
+        start: at,
+        end: null,
+        segments: [],
+      });
+    } else if (e.event === "batch:start" && e.batchId !== undefined) {
+      const segment: Segment = {
+        batchId: e.batchId,
+        start: at,
+        end: null,
+        files: e.files.length,
+        outcome: "ok",
+      };
+      workers.get(e.workerId)?.segments.push(segment);
+      running.set(e.workerId, segment);
+    } else if (e.event === "worker:message") {
+      if (e.message.type === "complete") {
+        finish(e.workerId, at, true);
+      }
+    } else if (e.event === "worker:exit") {
+      finish(e.workerId, at, false);
+      const worker = workers.get(e.workerId);
+      if (worker) {
+        worker.end = at;
+      }
+    }
+  }
+  return [...workers.values()];
+}
+
+/**
+ * Every batch with the batch it was split from and how it ended
+ */
+function loadBatches(entries: LogEntry[]): BatchNode[] {
+  const batches = new Map<number, BatchNode>();
+  for (const e of entries) {
+    if (e.event === "batches:created") {
+      for (const b of e.batches) {
+        batches.set(b.id, { id: b.id, files: b.files, outcome: "pending" });
+      }
+    } else if (e.event === "batch:retry") {
+      const parent = batches.get(e.batchId!);
+      if (parent) {
+        parent.outcome = `split (${e.reason})`;
+      }
+      for (const c of e.children) {
+        batches.set(c.id, {
+          id: c.id,
+          parentId: e.batchId,
+          files: c.files.length,
+          outcome: "pending",
+        });
+      }
+    } else if (e.event === "failure" && e.batchId !== undefined) {
+      const batch = batches.get(e.batchId);
+      if (batch && e.notRetried !== undefined) {
+        batch.outcome = `failed (${e.failures[0]?.reason ?? "unknown"})`;
+      } else if (batch) {
+        batch.outcome = `${e.failures.length} files quarantined`;
+      }
+    } else if (e.event === "worker:message" && e.batchId !== undefined) {
+      const batch = batches.get(e.batchId);
+      if (
+        e.message.type === "complete" &&
+        batch &&
+        batch.outcome === "pending"
+      ) {
+        batch.outcome = "ok";
+      }
+    }
+  }
+  return [...batches.values()];
+}
+
+// ============ Charts ============
+
+function memoryChart(series: Series[]): string {
+  const height = 280;
+  const left = 50;
+  const bottom = 30;
+  const plotWidth = CHART_WIDTH - left - 10;
+  const plotHeight = height - bottom - 10;
+  const points = series.flatMap((s) => s.points);
+  const maxX = Math.max(1, ...points.map(([x]) => x));
+  const maxY = Math.max(
+    100,
+    Math.ceil(Math.max(...points.map(([, y]) => y), 0) / 100) * 100,
+  );
+  const x = (v: number) => left + (v / maxX) * plotWidth;
+  const y = (v: number) => 10 + plotHeight - (v / maxY) * plotHeight;
+
+  const grid: string[] = [];
+  for (let i = 0; i <= 4; i++) {
+    const value = (maxY / 4) * i;
+    grid.push(
+      `<line x1="${left}" x2="${left + plotWidth}" y1="${y(value)}" y2="${y(value)}" class="grid"/>`,
+      `<text x="${left - 6}" y="${y(value) + 4}" text-anchor="end">${value}MB</text>`,
+    );
+  }
+  for (let i = 0; i <= 6; i++) {
+    const value = (maxX / 6) * i;
+    grid.push(
+      `<text x="${x(value)}" y="${height - 8}" text-anchor="middle">${value.toFixed(1)}s</text>`,
+    );
+  }
+
+  const lines = series.map((s, i) => {
+    const coords = s.points
+      .map(([px, py]) => `${x(px).toFixed(1)},${y(py).toFixed(1)}`)
+      .join(" ");
+    const peak = Math.max(0, ...s.points.map(([, py]) => py));
+    return `<polyline points="${coords}" fill="none" stroke="${COLORS[i % COLORS.length]}" stroke-width="1.5"><title>${escapeHtml(s.label)}: peak ${peak}MB</title></polyline>`;
+  });
+  const legend = series
+    .map(
+      (s, i) =>
+        `<span><i style="background:${COLORS[i % COLORS.length]}"></i>${escapeHtml(s.label)}</span>`,
+    )
+    .join("");
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${height}" class="chart">${grid.join("")}${lines.join("")}</svg>
+<div class="legend">${legend}</div>`;
+}
+
+function ganttChart(lifetimes: Lifetime[], endMs: number): string {
+  if (lifetimes.length === 0) {
+    return `<p class="muted">No events.ndjson: worker lifetimes unavailable.</p>`;
+  }
+  const row = 28;
+  const left = 80;
+  const height = lifetimes.length * row + 30;
+  const plotWidth = CHART_WIDTH - left - 10;
+  const x = (ms: number) => left + (ms / Math.max(1, endMs)) * plotWidth;
+
+  const rows = lifetimes.map((w, i) => {
+    const top = i * row + 4;
+    const end = w.end ?? endMs;
+    const bars = w.segments.map((s) => {
+      const until = s.end ?? end;
+      return `<rect x="${x(s.start)}" y="${top + 4}" width="${Math.max(1, x(until) - x(s.start))}" height="${row - 14}" class="${s.outcome}"><title>Batch ${s.batchId}: ${s.files} files, ${seconds(until - s.start)} (${s.outcome})</title></rect>`;
+    });
+    return [
+      `<text x="${left - 8}" y="${top + row / 2 + 2}" text-anchor="end">worker ${w.workerId}</text>`,
+      `<rect x="${x(w.start)}" y="${top}" width="${Math.max(1, x(end) - x(w.start))}" height="${row - 6}" class="lifetime"><title>Worker ${w.workerId}: ${seconds(end - w.start)}</title></rect>`,
+      ...bars,
+    ].join("");
+  });
+  const ticks: string[] = [];
+  for (let i = 0; i <= 6; i++) {
+    const ms = (endMs / 6) * i;
+    ticks.push(
+      `<text x="${x(ms)}" y="${height - 6}" text-anchor="middle">${seconds(ms)}</text>`,
+    );
+  }
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${height}" class="chart">${rows.join("")}${ticks.join("")}</svg>
+<div class="legend"><span><i class="ok"></i>batch completed</span><span><i class="failed"></i>worker died mid-batch</span></div>`;
+}
+
+function splitTree(batches: BatchNode[]): string {
+  if (batches.length === 0) {
+    return `<p class="muted">No batches recorded.</p>`;
+  }
+  const children = new Map<number | undefined, BatchNode[]>();
+  for (const b of batches) {
+    const siblings = children.get(b.parentId) ?? [];
+    siblings.push(b);
+    children.set(b.parentId, siblings);
+  }
+  const render = (nodes: BatchNode[]): string =>
+    `<ul>${nodes
+      .map((b) => {
+        const kids = children.get(b.id);
+        const status = b.outcome.startsWith("ok")
+          ? "ok"
+          : b.outcome.startsWith("split")
+            ? "split"
+            : "failed";
+        return `<li><span class="${status}">#${b.id}</span> ${b.files} files, ${escapeHtml(b.outcome)}${kids ? render(kids) : ""}</li>`;
+      })
+      .join("")}</ul>`;
+  return render(children.get(undefined) ?? []);
+}
+
+// ============ Violations ============
+
+/**
+ * Violations as compact rows for the page script: files and rules are
+ * indices into their own lists
+ */
+function violationData(results: ESLint.LintResult[], cwd: string) {
+  const files: string[] = [];
+  const rules: string[] = [];
+  const rows: [number, number, number, number, number, string][] = [];
+  for (const result of results) {
+    if (result.messages.length === 0) {
+      continue;
+    }
+    const fileIndex = files.push(path.relative(cwd, result.filePath)) - 1;
+    for (const m of result.messages) {
+      const rule = m.ruleId ?? "(fatal)";
+      let ruleIndex = rules.indexOf(rule);
+      if (ruleIndex === -1) {
+        ruleIndex = rules.push(rule) - 1;
+      }
+      rows.push([
+        fileIndex,
+        m.line,
+        m.column,
+        m.severity,
+        ruleIndex,
+        m.message,
+      ]);
+    }
+  }
+  return { files, rules, rows };
+}
+
+// Inline script: filters the violations table; no external assets
+const SCRIPT = `
+const { files, rules, rows } = DATA;
+const byRule = new Map();
+for (const [f, , , sev, r] of rows) {
+  const entry = byRule.get(r) ?? { errors: 0, warnings: 0, files: new Set() };
+  entry[sev === 2 ? "errors" : "warnings"]++;
+  entry.files.add(f);
+  byRule.set(r, entry);
+}
+const ruleSelect = document.getElementById("rule");
+const fileInput = document.getElementById("file");
+const severitySelect = document.getElementById("severity");
+const body = document.querySelector("#violations tbody");
+const count = document.getElementById("count");
+const esc = (s) => String(s).replace(/[&<>"]/g, (c) => "&#" + c.charCodeAt(0) + ";");
+
+[...byRule.entries()]
+  .sort((a, b) => b[1].errors + b[1].warnings - a[1].errors - a[1].warnings)
+  .forEach(([r, e]) => {
+    ruleSelect.add(new Option(rules[r], r));
+    const tr = document.querySelector("#rules tbody").insertRow();
+    tr.innerHTML = "<td><a href='#violations'>" + esc(rules[r]) + "</a></td><td>" + e.errors + "</td><td>" + e.warnings + "</td><td>" + e.files.size + "</td>";
+    tr.querySelector("a").onclick = () => { ruleSelect.value = r; render(); };
+  });
+
+function render() {
+  const rule = ruleSelect.value;
+  const file = fileInput.value.toLowerCase();
+  const severity = severitySelect.value;
+  const shown = rows.filter(([f, , , sev, r]) =>
+    (rule === "" || r === Number(rule)) &&
+    (severity === "" || sev === Number(severity)) &&
+    files[f].toLowerCase().includes(file));
+  body.innerHTML = shown.slice(0, 2000).map(([f, line, col, sev, r, msg]) =>
+    "<tr><td>" + esc(files[f]) + ":" + line + ":" + col + "</td><td class='" + (sev === 2 ? "failed" : "split") + "'>" + (sev === 2 ? "error" : "warning") + "</td><td>" + esc(rules[r]) + "</td><td>" + esc(msg) + "</td></tr>").join("");
+  count.textContent = shown.length + " of " + rows.length + " violations" + (shown.length > 2000 ? " (first 2000 shown)" : "");
+}
+ruleSelect.onchange = fileInput.oninput = severitySelect.onchange = render;
+render();
+`;
+
+const STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; background: #0f172a; color: #e2e8f0; margin: 0; padding: 2rem; }
+h1 { color: #38bdf8; margin: 0 0 .25rem; }
+h2 { color: #38bdf8; font-size: 1.1rem; margin: 0 0 1rem; }
+.card { background: #1e293b; border: 1px solid #334155; border-radius: 12px; padding: 1.5rem; margin-bottom: 1.5rem; }
+.muted, .subtitle { color: #64748b; }
+.stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(140px, 1fr)); gap: 1rem; }
+.stat { background: #0f172a; border-radius: 8px; padding: 1rem; text-align: center; }
+.stat b { display: block; font-size: 1.6rem; }
+.stat span { color: #94a3b8; font-size: .85rem; }
+.chart { width: 100%; height: auto; }
+.chart text { fill: #94a3b8; font-size: 11px; }
+.chart .grid { stroke: #334155; }
+.chart .lifetime { fill: #334155; }
+rect.ok { fill: #22c55e; } rect.failed { fill: #ef4444; }
+span.ok { color: #22c55e; } span.split { color: #f59e0b; } span.failed { color: #ef4444; }
+td.failed { color: #ef4444; } td.split { color: #f59e0b; }
+.legend { display: flex; gap: 1rem; font-size: .85rem; color: #94a3b8; margin-top: .5rem; }
+.legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; }
+.legend i.ok { background: #22c55e; } .legend i.failed { background: #ef4444; }
+ul { list-style: none; padding-left: 1.25rem; margin: .25rem 0; } li { margin: .25rem 0; }
+table { width: 100%; border-collapse: collapse; font-size: .9rem; }
+th, td { padding: .4rem .6rem; text-align: left; border-bottom: 1px solid #334155; vertical-align: top; }
+th { color: #94a3b8; font-weight: 500; }
+a { color: #38bdf8; }
+.filters { display: flex; gap: .75rem; margin-bottom: 1rem; }
+input, select { background: #0f172a; color: #e2e8f0; border: 1px solid #334155; border-radius: 6px; padding: .35rem .5rem; }
+`;
+
+// ============ Page ============
+
+/**
+ * The whole report as one HTML page with inline SVG charts, styles and
+ * script, so it can be opened offline or attached as a CI artifact
+ */
+export function buildHtmlReport(input: HtmlReportInput): string {
+  const { summary } = input;
+  const eventsFile = path.join(input.outputDir, "events.ndjson");
+  const entries = fs.existsSync(eventsFile) ? readEventLog(eventsFile) : [];
+  const first = entries[0];
+  const start = first
+    ? Date.parse(first.time) - first.elapsedMs
+    : (masterTimeline(input.outputDir)[0]?.ts ?? Date.now());
+  const series = loadMemory(input, start);
+  const endMs = Math.max(
+    entries[entries.length - 1]?.elapsedMs ?? 0,
+    ...series.flatMap((s) => s.points.map(([t]) => t * 1000)),
+  );
+  // Workers that crashed never report a peak; their samples still count
+  const peakWorkerMB = Math.max(
+    mb(summary.peakRSS),
+    ...series.slice(1).flatMap((s) => s.points.map(([, rss]) => rss)),
+  );
+
+  const stats: [string, string | number][] = [
+    ["Files", summary.totalFiles],
+    ["Processed", summary.processedFiles],
+    ["Failed", summary.failedFiles],
+    ["Errors", summary.totalErrors],
+    ["Warnings", summary.totalWarnings],
+    ["Workers", summary.workers.length],
+    ["Peak worker RSS", `${peakWorkerMB}MB`],
+    ["Duration", seconds(endMs)],
+    ["Exit code", summary.gate.exitCode],
+  ];
+  const data = JSON.stringify(violationData(input.results, input.cwd)).replace(
+    /</g,
+    "\\u003c",
+  );
+  const failures = summary.failures
+    .map(
+      (f) =>
+        `<tr><td>${escapeHtml(path.relative(input.cwd, f.file))}</td><td>${f.reason}</td><td>${escapeHtml(f.ruleId ?? "")}</td><td>${escapeHtml(f.message.split("\n")[0]!)}</td></tr>`,
+    )
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>ESLint run report</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>⚡ ESLint run report</h1>
+<p class="subtitle">${escapeHtml(input.cwd)} · ${summary.batchStrategy} batching · ${first ? escapeHtml(first.time) : ""}</p>
+
+<div class="card"><div class="stats">${stats.map(([label, value]) => `<div class="stat"><b>${value}</b><span>${label}</span></div>`).join("")}</div></div>
+
+<div class="card"><h2>📈 Memory (RSS)</h2>${memoryChart(series)}</div>
+
+<div class="card"><h2>👷 Worker lifetimes</h2>${ganttChart(loadLifetimes(entries), endMs)}</div>
+
+<div class="card"><h2>🌳 Batches and splits</h2>${splitTree(loadBatches(entries))}</div>
+${failures ? `\n<div class="card"><h2>❌ Failed files</h2><table><thead><tr><th>File</th><th>Reason</th><th>Rule</th><th>Message</th></tr></thead><tbody>${failures}</tbody></table></div>\n` : ""}
+<div class="card"><h2>📋 Violations by rule</h2>
+<table id="rules"><thead><tr><th>Rule</th><th>Errors</th><th>Warnings</th><th>Files</th></tr></thead><tbody></tbody></table></div>
+
+<div class="card"><h2>🔍 Violations</h2>
+<div class="filters">
+<select id="rule"><option value="">All rules</option></select>
+<select id="severity"><option value="">All severities</option><option value="2">Errors</option><option value="1">Warnings</option></select>
+<input id="file" placeholder="Filter by file" />
+<span id="count" class="muted"></span>
+</div>
+<table id="violations"><thead><tr><th>Location</th><th>Severity</th><th>Rule</th><th>Message</th></tr></thead><tbody></tbody></table></div>
+
+<script>const DATA = ${data};${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write report.html into the output directory
+ */
+export function writeHtmlReport(input: HtmlReportInput): string {
+  const file = path.join(input.outputDir, "report.html");
+  fs.writeFileSync(file, buildHtmlReport(input));
+  return file;
+}
@@ -0,0 +1,119 @@
+// src/tools/legacy-config.ts - Finding ESLint configs and loading legacy ones
+
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { glob } from "glob";
+import { LegacyConfig, LegacyConfigFile } from "./config-converter.ts";
+
+// In the order ESLint 9 looks for them
+export const FLAT_CONFIG_FILES = [
+  "eslint.config.js",
+  "eslint.config.mjs",
+  "eslint.config.cjs",
+  "eslint.config.ts",
+  "eslint.config.mts",
+  "eslint.config.cts",
+];
+
+// In the order ESLint 8 looked for them within one directory
+export const LEGACY_CONFIG_FILES = [
+  ".eslintrc.js",
+  ".eslintrc.cjs",
+  ".eslintrc.yaml",
+  ".eslintrc.yml",
+  ".eslintrc.json",
+  ".eslintrc",
+  "package.json",
+];
+
+// ESLint's own loader: comments in JSON, YAML, fresh require() of JS configs
+const { Legacy } = createRequire(import.meta.url)("@eslint/eslintrc") as {
+  Legacy: { loadConfigFile(filePath: string): LegacyConfig | null };
+};
+
+export function loadLegacyConfigFile(filePath: string): LegacyConfig {
+  return Legacy.loadConfigFile(filePath) ?? {};
+}
+
+function hasConfig(filePath: string): boolean {
+  if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    return false;
+  }
+  if (path.basename(filePath) !== "package.json") {
+    return true;
+  }
+  try {
+    const pkg = JSON.parse(fs.readFileSync(filePath, "utf8")) as object;
+    return Object.hasOwn(pkg, "eslintConfig");
+  } catch {
+    return false;
+  }
+}
+
+export function isFlatConfigFile(filePath: string): boolean {
+  return FLAT_CONFIG_FILES.includes(path.basename(filePath));
+}
+
+/**
+ * A flat config in `dir` (the project has migrated), or null
+ */
+export function findFlatConfig(dir: string): string | null {
+  for (const name of FLAT_CONFIG_FILES) {
+    const filePath = path.join(dir, name);
+    if (fs.existsSync(filePath)) {
+      return filePath;
+    }
+  }
+  return null;
+}
+
+/**
+ * The config file ESLint 8 would have used for `dir`, or null
+ */
+export function findLegacyConfig(dir: string): string | null {
+  for (const name of LEGACY_CONFIG_FILES) {
+    const filePath = path.join(dir, name);
+    if (hasConfig(filePath)) {
+      return filePath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Legacy configs in the directories below the project root, parents
+ * before children. `ignore` globs are relative to the project root.
+ */
+export async function findNestedConfigs(
+  projectRoot: string,
+  ignore: string[] = [],
+): Promise<LegacyConfigFile[]> {
+  const matches = await glob(`**/{${LEGACY_CONFIG_FILES.join(",")}}`, {
+    cwd: projectRoot,
+    dot: true,
+    ignore: ["**/node_modules/**", "**/.git/**", ...ignore],
+  });
+
+  const directories = [
+    ...new Set(matches.map((m) => path.dirname(m).split(path.sep).join("/"))),
+  ]
+    .filter((dir) => dir !== ".")
+    .sort();
+
+  const configs: LegacyConfigFile[] = [];
+  for (const directory of directories) {
+    const filePath = findLegacyConfig(path.join(projectRoot, directory));
+    if (filePath) {
+      configs.push({
+        filePath: path
+          .relative(projectRoot, filePath)
+          .split(path.sep)
+          .join("/"),
+        directory,
+        config: loadLegacyConfigFile(filePath),
+      });
+    }
+  }
+  return configs;
+}
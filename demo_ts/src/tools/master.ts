@@ -1,382 +1,279 @@
-// src/tools/master.ts - Master orchestrator for parallel ESLint
+// src/tools/master.ts - CLI entry point for the parallel ESLint orchestrator
 
-import fs from "fs";
 import path from "path";
-import { fileURLToPath } from "url";
-import { fork, ChildProcess } from "child_process";
-import { glob } from "glob";
-import { ConfigConverter } from "./config-converter.ts";
-import { MemProfiler } from "./mem-profiler.ts";
-import {
-  LintTask,
-  WorkerMessage,
-  Batch,
-  WorkerState,
-  FailedFile,
-  Summary,
-} from "./types.ts";
-import { getTestConfig, printTestHelp } from "./test-scenarios.ts";
-import { ESLint } from "eslint";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Check for --help flag
-if (process.argv.includes("--help") || process.argv.includes("-h")) {
-  printTestHelp();
+import { Orchestrator } from "./orchestrator.ts";
+import { getTestConfig } from "./test-scenarios.ts";
+import { CliOptions, parseCliArgs, printHelp } from "./cli.ts";
+import { formatResults, validateFormat, writeReport } from "./report.ts";
+import { ConfigurationError, EXIT_CODES } from "./exit-codes.ts";
+import { Logger, ProgressDisplay, ProgressMode } from "./progress.ts";
+
+// ============ Configuration ============
+let CONFIG: CliOptions;
+try {
+  CONFIG = parseCliArgs(process.argv.slice(2));
+} catch (err: unknown) {
+  console.error(`❌ ${err instanceof Error ? err.message : String(err)}`);
+  console.error("   Run with --help to see the available options");
+  process.exit(EXIT_CODES.config);
+}
+
+if (CONFIG.help) {
+  printHelp();
   process.exit(0);
 }
 
 // Load test config
-const testConfig = getTestConfig();
+const testConfig = getTestConfig(CONFIG.testArgs);
 
-// ============ Configuration ============
-const CONFIG = {
-  maxWorkers: 2,
-  maxRetries: 2,
-  memoryThresholdPercent: 75,
-  containerLimitMB: 4096, // 4GB default
-  initialBatchDivisor: 4, // Split files into ~4 batches initially
-};
-
-const projectRoot = process.cwd();
-const outputDir = path.join(projectRoot, "lint-output");
-
-// ============ State ============
-let batchIdCounter = 0;
-let workerIdCounter = 0;
-const pendingBatches: Batch[] = [];
-const activeWorkers: Map<number, WorkerState> = new Map();
-const completedResults: Map<number, ESLint.LintResult[]> = new Map();
-const failedFiles: FailedFile[] = [];
-const workerStats: Summary["workers"] = [];
+// Without --output-file the report is written to stdout, so everything
+// else goes to stderr to keep the report parseable
+const chatter =
+  CONFIG.outputFile !== undefined ? process.stdout : process.stderr;
 
 // ============ Helpers ============
 function mb(bytes: number): number {
   return Math.round(bytes / 1024 / 1024);
 }
 
-function getTotalRSS(): number {
-  // Master RSS + all worker RSS
-  let total = process.memoryUsage().rss;
-  for (const worker of activeWorkers.values()) {
-    const lastSample = worker.samples[worker.samples.length - 1];
-    if (lastSample) {
-      total += lastSample.rss;
-    }
-  }
-  return total;
+function say(message = ""): void {
+  chatter.write(`${message}\n`);
 }
 
-function canSpawnWorker(): boolean {
-  if (activeWorkers.size >= CONFIG.maxWorkers) {
-    return false;
-  }
-  const thresholdBytes =
-    (CONFIG.containerLimitMB * 1024 * 1024 * CONFIG.memoryThresholdPercent) /
-    100;
-  return getTotalRSS() < thresholdBytes;
-}
-
-function createBatches(files: string[]): Batch[] {
-  const batchSize = Math.max(
-    1,
-    Math.ceil(files.length / CONFIG.initialBatchDivisor),
-  );
-  const batches: Batch[] = [];
-
-  for (let i = 0; i < files.length; i += batchSize) {
-    batches.push({
-      id: batchIdCounter++,
-      files: files.slice(i, i + batchSize),
-      retries: 0,
-    });
-  }
-
-  return batches;
-}
-
-function splitBatch(batch: Batch): Batch[] {
-  const mid = Math.ceil(batch.files.length / 2);
-  return [
-    {
-      id: batchIdCounter++,
-      files: batch.files.slice(0, mid),
-      retries: batch.retries + 1,
-    },
-    {
-      id: batchIdCounter++,
-      files: batch.files.slice(mid),
-      retries: batch.retries + 1,
-    },
-  ];
-}
-
-// ============ Worker Management ============
-function spawnWorker(batch: Batch, configPath: string): void {
-  const workerId = workerIdCounter++;
-
-  console.log(
-    `\n[Master] Spawning worker ${workerId} for batch ${batch.id} (${batch.files.length} files)`,
-  );
+// ============ Console Reporting ============
+function attachConsoleReporter(orchestrator: Orchestrator, out: Logger): void {
+  orchestrator.on("run:start", (e) => {
+    out.log(
+      `✓ Memory limit: ${mb(e.memoryLimitBytes)}MB (${e.memoryLimitSource}), spawn threshold ${e.memoryThresholdPercent}%\n`,
+    );
+  });
 
-  const workerPath = path.join(__dirname, "worker.ts");
+  orchestrator.on("config:detected", (e) => {
+    out.log(
+      `✓ Using flat config ${path.relative(process.cwd(), e.flatConfigPath)}\n`,
+    );
+  });
 
-  // Pass test args to worker
-  const workerArgs: string[] = [];
-  if (testConfig.scenario !== "none") {
-    workerArgs.push(`--test=${testConfig.scenario}`);
-    if (testConfig.targetFile) {
-      workerArgs.push(`--test-file=${testConfig.targetFile}`);
+  orchestrator.on("config:loaded", (e) => {
+    out.log(
+      `✓ Legacy config loaded (${path.relative(process.cwd(), e.legacyConfigPath)})`,
+    );
+    out.log(`  Parser: ${e.parser}`);
+    out.log(`  Rules: ${e.ruleCount}`);
+    if (e.nestedConfigs.length > 0) {
+      out.log(`  Nested: ${e.nestedConfigs.join(", ")}`);
     }
-  }
+    for (const w of e.warnings) {
+      out.log(`  ⚠️ ${w.path}: ${w.message}`);
+    }
+    out.log(
+      `✓ Flat config written to ${path.relative(process.cwd(), e.flatConfigPath)}\n`,
+    );
+  });
 
-  const child: ChildProcess = fork(workerPath, workerArgs, {
-    execArgv: ["--import", "tsx"],
-    stdio: ["inherit", "inherit", "inherit", "ipc"],
+  orchestrator.on("files:found", (e) => {
+    out.log(
+      `✓ Found ${e.files.length} files matching ${e.patterns.join(" ")}\n`,
+    );
   });
 
-  const workerState: WorkerState = {
-    id: workerId,
-    pid: child.pid ?? 0,
-    batch,
-    startTime: Date.now(),
-    samples: [],
-  };
-
-  activeWorkers.set(workerId, workerState);
-
-  // Send lint task
-  const task: LintTask = {
-    type: "lint",
-    workerId,
-    configPath,
-    files: batch.files,
-  };
-  child.send(task);
-
-  // Handle messages from worker
-  child.on("message", (msg: WorkerMessage) => {
-    if (msg.type === "memory") {
-      workerState.samples.push(msg);
-    } else if (msg.type === "result") {
-      console.log(`[Master] Worker ${workerId} completed successfully`);
-      completedResults.set(workerId, msg.results);
-      workerStats.push({
-        id: workerId,
-        files: batch.files.length,
-        peakRSS: msg.peakRSS,
-        duration: msg.duration,
-      });
-    } else if (msg.type === "error") {
-      console.error(
-        `[Master] Worker ${workerId} error: ${msg.errorType} - ${msg.message}`,
-      );
-      handleWorkerError(batch, msg.errorType, msg.message, msg.file);
-    }
+  orchestrator.on("changes:detected", (e) => {
+    out.log(
+      `✓ ${e.changed.length} files changed since ${e.ref} (${e.base.slice(0, 8)}), ${e.dependents.length} dependents\n`,
+    );
   });
 
-  // Handle worker exit
-  child.on("exit", (code, signal) => {
-    activeWorkers.delete(workerId);
-
-    // Detect OOM (SIGKILL or exit code 137)
-    if (signal === "SIGKILL" || code === 137) {
-      console.error(`[Master] Worker ${workerId} killed (OOM suspected)`);
-      handleWorkerError(batch, "oom", "Process killed - likely OOM");
-    } else if (code !== 0 && !completedResults.has(workerId)) {
-      console.error(`[Master] Worker ${workerId} exited with code ${code}`);
-      handleWorkerError(batch, "unknown", `Exit code ${code}`);
-    }
+  orchestrator.on("cache:checked", (e) => {
+    out.log(
+      `✓ Cache: ${e.cached.length} unchanged, ${e.toLint.length} to lint (${path.relative(process.cwd(), e.cacheFile)})\n`,
+    );
+  });
 
-    // Save worker memory timeline
-    if (workerState.samples.length > 0) {
-      const memFile = path.join(outputDir, `worker-${workerId}-memory.json`);
-      fs.writeFileSync(memFile, JSON.stringify(workerState.samples, null, 2));
-    }
+  orchestrator.on("batches:created", (e) => {
+    out.log(`✓ Created ${e.batches.length} batches (${e.strategy} strategy)\n`);
+    out.log("[Master] Starting workers...\n");
+  });
+
+  orchestrator.on("batch:start", ({ batch, workerId, reused }) => {
+    const verb = reused ? "Reusing" : "Spawning";
+    out.log(
+      `\n[Master] ${verb} worker ${workerId} for batch ${batch.id} (${batch.files.length} files)`,
+    );
+  });
 
-    // Continue processing
-    processNextBatch(configPath);
+  orchestrator.on("batch:complete", ({ batch, workerId }) => {
+    out.log(
+      `[Master] Worker ${workerId} completed batch ${batch.id} successfully`,
+    );
   });
 
-  child.on("error", (err) => {
-    console.error(`[Master] Worker ${workerId} spawn error:`, err.message);
-    activeWorkers.delete(workerId);
-    handleWorkerError(batch, "unknown", err.message);
-    processNextBatch(configPath);
+  orchestrator.on("worker:error", (e) => {
+    const where = e.file ? ` in ${path.relative(process.cwd(), e.file)}` : "";
+    const rule = e.ruleId ? ` (${e.ruleId})` : "";
+    out.error(
+      `[Master] Worker ${e.workerId} error${where}${rule}: ${e.errorType} - ${e.message.split("\n")[0]}`,
+    );
   });
-}
 
-function handleWorkerError(
-  batch: Batch,
-  errorType: "oom" | "parse_error" | "rule_crash" | "unknown",
-  message: string,
-  file?: string,
-): void {
-  if (
-    errorType === "oom" &&
-    batch.retries < CONFIG.maxRetries &&
-    batch.files.length > 1
-  ) {
-    // Split batch and retry
-    console.log(
+  orchestrator.on("batch:retry", ({ batch }) => {
+    out.log(
       `[Master] Splitting batch ${batch.id} and retrying (attempt ${batch.retries + 1})`,
     );
-    const newBatches = splitBatch(batch);
-    pendingBatches.push(...newBatches);
-  } else if (errorType === "parse_error" && file) {
-    // Mark single file as failed
-    failedFiles.push({ file, reason: errorType, message });
-  } else {
-    // Mark all files in batch as failed
-    for (const f of batch.files) {
-      failedFiles.push({ file: f, reason: errorType, message });
-    }
-  }
-}
+  });
 
-function processNextBatch(configPath: string): void {
-  while (pendingBatches.length > 0 && canSpawnWorker()) {
-    const batch = pendingBatches.shift()!;
-    spawnWorker(batch, configPath);
-  }
+  orchestrator.on("worker:output", ({ workerId, stream, line }) => {
+    if (stream === "stderr") {
+      out.error(`[Worker ${workerId}] ${line}`);
+    } else {
+      out.log(`[Worker ${workerId}] ${line}`);
+    }
+  });
 
-  // Check if all done
-  if (pendingBatches.length === 0 && activeWorkers.size === 0) {
-    finalize();
-  }
-}
+  orchestrator.on("worker:timeout", ({ workerId, reason }) => {
+    out.error(`[Master] Worker ${workerId} timed out: ${reason}`);
+  });
 
-// ============ Finalization ============
-function finalize(): void {
-  console.log("\n" + "=".repeat(50));
-  console.log("[Master] All workers completed");
-  console.log("=".repeat(50));
-
-  // Aggregate results
-  let totalErrors = 0;
-  let totalWarnings = 0;
-  let processedFiles = 0;
-
-  for (const [workerId, results] of completedResults) {
-    // Write per-worker results
-    const resultFile = path.join(outputDir, `worker-${workerId}-results.json`);
-    fs.writeFileSync(resultFile, JSON.stringify(results, null, 2));
-    console.log(`[Master] Wrote ${resultFile}`);
-
-    for (const r of results) {
-      processedFiles++;
-      totalErrors += r.errorCount;
-      totalWarnings += r.warningCount;
-    }
-  }
+  orchestrator.on("worker:sigkill", ({ workerId }) => {
+    out.error(`[Master] Worker ${workerId} ignored SIGTERM, sending SIGKILL`);
+  });
 
-  // Build summary
-  const allFiles =
-    workerStats.reduce((sum, w) => sum + w.files, 0) + failedFiles.length;
-  const summary: Summary = {
-    totalFiles: allFiles,
-    processedFiles,
-    failedFiles: failedFiles.length,
-    totalErrors,
-    totalWarnings,
-    workers: workerStats,
-    failures: failedFiles,
-  };
-
-  const summaryFile = path.join(outputDir, "summary.json");
-  fs.writeFileSync(summaryFile, JSON.stringify(summary, null, 2));
+  orchestrator.on("worker:retire", ({ workerId, batchesRun }) => {
+    out.log(`[Master] Retiring worker ${workerId} after ${batchesRun} batches`);
+  });
 
-  // Print summary
-  console.log("\n📊 Summary:");
-  console.log(`  Total files: ${summary.totalFiles}`);
-  console.log(`  Processed: ${summary.processedFiles}`);
-  console.log(`  Failed: ${summary.failedFiles}`);
-  console.log(`  Errors: ${summary.totalErrors}`);
-  console.log(`  Warnings: ${summary.totalWarnings}`);
-  console.log(`  Workers used: ${workerStats.length}`);
-
-  if (failedFiles.length > 0) {
-    console.log("\n❌ Failed files:");
-    for (const f of failedFiles) {
-      console.log(`  - ${f.file}: ${f.reason} - ${f.message}`);
+  orchestrator.on("worker:exit", ({ workerId, code, failure }) => {
+    if (failure === "oom") {
+      out.error(`[Master] Worker ${workerId} killed (OOM suspected)`);
+    } else if (failure === "unknown") {
+      out.error(`[Master] Worker ${workerId} exited with code ${code}`);
     }
-  }
-
-  console.log("\n📁 Output:");
-  console.log(`  ${outputDir}/`);
-  console.log(`    - summary.json`);
-  for (const w of workerStats) {
-    console.log(`    - worker-${w.id}-results.json`);
-    console.log(`    - worker-${w.id}-memory.json`);
-  }
+  });
 
-  process.exit(failedFiles.length > 0 ? 1 : 0);
+  orchestrator.on("suppressions:updated", ({ file, count }) => {
+    out.log(
+      `[Master] Recorded ${count} suppressions in ${path.relative(process.cwd(), file)}`,
+    );
+  });
 }
 
 // ============ Main ============
 async function main(): Promise<void> {
-  console.log("🚀 ESLint Master-Worker Orchestrator\n");
+  say("🚀 ESLint Master-Worker Orchestrator\n");
 
   // Show test mode if active
   if (testConfig.scenario !== "none") {
-    console.log(`🧪 TEST MODE: ${testConfig.scenario}`);
+    say(`🧪 TEST MODE: ${testConfig.scenario}`);
     if (testConfig.targetFile) {
-      console.log(`   Target file pattern: ${testConfig.targetFile}`);
+      say(`   Target file pattern: ${testConfig.targetFile}`);
     }
-    console.log("");
+    say();
   }
 
-  // Create output directory
-  fs.mkdirSync(outputDir, { recursive: true });
+  const orchestrator = new Orchestrator({ ...CONFIG.config, test: testConfig });
+  await validateFormat(CONFIG.format, orchestrator.projectRoot);
+  const progressMode: ProgressMode =
+    CONFIG.progress === "auto"
+      ? chatter.isTTY
+        ? "tty"
+        : "lines"
+      : CONFIG.progress;
+  const progress = new ProgressDisplay(orchestrator, progressMode, chatter);
+  attachConsoleReporter(orchestrator, progress);
+
+  const { summary, results, flatConfigPath, outputFiles } =
+    await orchestrator.run();
+
+  say("\n" + "=".repeat(50));
+  say("[Master] All workers completed");
+  say("=".repeat(50));
+
+  // Formatted report of the merged results
+  const report = await formatResults(results, {
+    format: CONFIG.format,
+    cwd: orchestrator.projectRoot,
+    configPath: flatConfigPath,
+    failures: summary.failures,
+  });
+  writeReport(report, CONFIG.outputFile);
 
-  // 1. Load and convert config (ONCE)
-  const legacyConfigPath = path.join(projectRoot, ".eslintrc.json");
-  if (!fs.existsSync(legacyConfigPath)) {
-    console.error("❌ No .eslintrc.json found");
-    process.exit(1);
+  // Print summary
+  say("\n📊 Summary:");
+  say(`  Batch strategy: ${summary.batchStrategy}`);
+  say(`  Total files: ${summary.totalFiles}`);
+  say(`  Processed: ${summary.processedFiles}`);
+  if (summary.cachedFiles > 0) {
+    say(`  From cache: ${summary.cachedFiles}`);
+  }
+  say(`  Failed: ${summary.failedFiles}`);
+  say(`  Errors: ${summary.totalErrors}`);
+  say(`  Warnings: ${summary.totalWarnings}`);
+  if (summary.suppressions) {
+    say(`  Suppressed: ${summary.suppressions.suppressed}`);
+  }
+  say(`  Workers used: ${summary.workers.length}`);
+  say(`  Peak worker RSS: ${mb(summary.peakRSS)}MB`);
+
+  if (summary.failures.length > 0) {
+    say("\n❌ Failed files:");
+    for (const f of summary.failures) {
+      const rule = f.ruleId ? ` (${f.ruleId})` : "";
+      say(`  - ${f.file}: ${f.reason}${rule} - ${f.message.split("\n")[0]}`);
+    }
   }
 
-  const legacyConfig = ConfigConverter.loadLegacyConfig(legacyConfigPath);
-  console.log("✓ Legacy config loaded");
-  console.log(`  Parser: ${legacyConfig.parser}`);
-  console.log(`  Rules: ${Object.keys(legacyConfig.rules ?? {}).length}`);
-
-  const { source } = ConfigConverter.convert(legacyConfig);
-  const flatConfigPath = path.join(projectRoot, "eslint.config.mjs");
-  ConfigConverter.writeFlatConfig(source, flatConfigPath);
-  console.log("✓ Flat config written to eslint.config.mjs\n");
-
-  // 2. Find all TypeScript files
-  const files = await glob("src/**/*.ts", { cwd: projectRoot, absolute: true });
-  console.log(`✓ Found ${files.length} TypeScript files\n`);
-
-  if (files.length === 0) {
-    console.log("No files to lint.");
-    process.exit(0);
+  if (summary.fixes) {
+    const { mode, fixedFiles, conflicts, patchFile } = summary.fixes;
+    const verb = mode === "write" ? "Fixed" : "Fixable";
+    say(`\n🔧 ${verb}: ${fixedFiles.length} files`);
+    if (patchFile) {
+      say(`  Patch: ${path.relative(process.cwd(), patchFile)}`);
+    }
+    if (conflicts.length > 0) {
+      say(`  ⚠️ Not written, changed since discovery: ${conflicts.length}`);
+      for (const file of conflicts) {
+        say(`  - ${path.relative(process.cwd(), file)}`);
+      }
+    }
   }
 
-  // 3. Create initial batches
-  const batches = createBatches(files);
-  pendingBatches.push(...batches);
-  console.log(`✓ Created ${batches.length} batches\n`);
+  const stale = summary.suppressions?.stale ?? [];
+  if (stale.length > 0) {
+    say(
+      `\n🧹 ${stale.length} stale suppressions (fixed, run with --update-suppressions to remove):`,
+    );
+    for (const s of stale) {
+      say(`  - ${s.file}: ${s.rule} "${s.snippet}"`);
+    }
+  }
 
-  // 4. Start master memory profiling
-  const profiler = new MemProfiler();
-  profiler.start(500);
+  say("\n📁 Output:");
+  say(`  ${orchestrator.outputDir}/`);
+  for (const file of outputFiles) {
+    say(`    - ${file}`);
+  }
+  if (CONFIG.outputFile) {
+    say(`  ${CONFIG.outputFile} (${CONFIG.format} report)`);
+  }
 
-  // 5. Start processing
-  console.log("[Master] Starting workers...\n");
-  processNextBatch(flatConfigPath);
+  const { gate } = summary;
+  if (gate.passed) {
+    say("\n🚦 Gate passed");
+  } else {
+    say(`\n🚦 Gate failed (exit ${gate.exitCode}):`);
+    for (const reason of gate.reasons) {
+      say(`  - ${reason}`);
+    }
+  }
 
-  // Save master memory on exit
-  process.on("exit", () => {
-    profiler.stop();
-    profiler.dump(path.join(outputDir, "master-memory.json"));
-  });
+  process.exit(gate.exitCode);
 }
 
-main().catch((err) => {
-  console.error("💥 Master error:", err);
-  process.exit(1);
+main().catch((err: unknown) => {
+  const message = err instanceof Error ? err.message : String(err);
+  if (err instanceof ConfigurationError) {
+    console.error(`❌ Configuration error: ${message}`);
+    process.exit(EXIT_CODES.config);
+  }
+  console.error(`💥 Master error: ${message}`);
+  process.exit(EXIT_CODES.infrastructure);
 });
@@ -0,0 +1,183 @@
+// src/tools/memory-budget.ts - cgroup-aware memory limit and spawn gating
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ConfigurationError } from "./exit-codes.ts";
+
+const CGROUP_ROOT = "/sys/fs/cgroup";
+
+export type MemoryLimitSource = "config" | "cgroup-v2" | "cgroup-v1" | "os";
+
+interface CgroupFiles {
+  version: "cgroup-v2" | "cgroup-v1";
+  limit: string;
+  usage: string;
+  stat: string;
+  inactiveFileKey: string;
+}
+
+function readNumber(file: string): number | null {
+  try {
+    const text = fs.readFileSync(file, "utf8").trim();
+    const value = Number(text);
+    // cgroup v2 writes "max" when there is no limit
+    return text === "max" || !Number.isFinite(value) ? null : value;
+  } catch {
+    return null;
+  }
+}
+
+function readStat(file: string, key: string): number {
+  try {
+    for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+      const [name, value] = line.split(" ");
+      if (name === key && value !== undefined) {
+        return Number(value);
+      }
+    }
+  } catch {
+    // No stat file, nothing to subtract
+  }
+  return 0;
+}
+
+/**
+ * Locate this process's memory cgroup, trying its own path from
+ * /proc/self/cgroup first and the mount root second (namespaced containers
+ * usually only see the root).
+ */
+function findCgroupFiles(): CgroupFiles | null {
+  let v2Path = "/";
+  let v1Path = "/";
+  try {
+    for (const line of fs
+      .readFileSync("/proc/self/cgroup", "utf8")
+      .split("\n")) {
+      const [id, controllers, cgroupPath] = line.split(":");
+      if (cgroupPath === undefined) continue;
+      if (id === "0" && controllers === "") v2Path = cgroupPath;
+      if (controllers?.split(",").includes("memory")) v1Path = cgroupPath;
+    }
+  } catch {
+    // Not Linux, fall through to the root paths
+  }
+
+  for (const dir of [path.join(CGROUP_ROOT, v2Path), CGROUP_ROOT]) {
+    if (fs.existsSync(path.join(dir, "memory.max"))) {
+      return {
+        version: "cgroup-v2",
+        limit: path.join(dir, "memory.max"),
+        usage: path.join(dir, "memory.current"),
+        stat: path.join(dir, "memory.stat"),
+        inactiveFileKey: "inactive_file",
+      };
+    }
+  }
+
+  const v1Root = path.join(CGROUP_ROOT, "memory");
+  for (const dir of [path.join(v1Root, v1Path), v1Root]) {
+    if (fs.existsSync(path.join(dir, "memory.limit_in_bytes"))) {
+      return {
+        version: "cgroup-v1",
+        limit: path.join(dir, "memory.limit_in_bytes"),
+        usage: path.join(dir, "memory.usage_in_bytes"),
+        stat: path.join(dir, "memory.stat"),
+        inactiveFileKey: "total_inactive_file",
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Tracks the memory limit and current usage of the container the master
+ * runs in, and predicts what one more worker will cost from the peaks of
+ * workers seen so far in this run.
+ */
+export class MemoryBudget {
+  readonly limitBytes: number;
+  readonly limitSource: MemoryLimitSource;
+  private cgroup: CgroupFiles | null;
+  private worstWorkerPeak = 0;
+
+  constructor(
+    private thresholdPercent: number,
+    private defaultWorkerCostBytes: number,
+    limitMB: number | null = null,
+  ) {
+    const cgroup = findCgroupFiles();
+    const cgroupLimit = cgroup ? readNumber(cgroup.limit) : null;
+    const totalmem = os.totalmem();
+    // cgroup v1 reports a huge sentinel instead of "max" when unlimited
+    const limited = cgroupLimit !== null && cgroupLimit < totalmem;
+
+    // Without a real limit the cgroup may be a whole slice rather than
+    // our container, so its usage counter isn't ours either
+    this.cgroup = limited ? cgroup : null;
+
+    if (limitMB !== null && !(limitMB >= 1)) {
+      throw new ConfigurationError(
+        `The memory limit must be at least 1MB, got ${limitMB}`,
+      );
+    }
+    if (limitMB !== null) {
+      this.limitBytes = limitMB * 1024 * 1024;
+      this.limitSource = "config";
+    } else if (cgroup && limited) {
+      this.limitBytes = cgroupLimit;
+      this.limitSource = cgroup.version;
+    } else {
+      this.limitBytes = totalmem;
+      this.limitSource = "os";
+    }
+  }
+
+  get thresholdBytes(): number {
+    return (this.limitBytes * this.thresholdPercent) / 100;
+  }
+
+  /**
+   * Current usage from the cgroup (minus reclaimable page cache), or the
+   * caller's own RSS tally when there is no cgroup to ask.
+   */
+  currentUsage(fallbackRSS: number): number {
+    if (!this.cgroup) {
+      return fallbackRSS;
+    }
+    const usage = readNumber(this.cgroup.usage);
+    if (usage === null) {
+      return fallbackRSS;
+    }
+    const inactiveFile = readStat(
+      this.cgroup.stat,
+      this.cgroup.inactiveFileKey,
+    );
+    return Math.max(usage - inactiveFile, fallbackRSS);
+  }
+
+  recordWorkerPeak(peakRSS: number): void {
+    this.worstWorkerPeak = Math.max(this.worstWorkerPeak, peakRSS);
+  }
+
+  /**
+   * Expected peak RSS of a new worker: the worst peak seen so far, or the
+   * configured default before any worker has reported.
+   */
+  predictWorkerCost(): number {
+    return this.worstWorkerPeak > 0
+      ? this.worstWorkerPeak
+      : this.defaultWorkerCostBytes;
+  }
+
+  /**
+   * Whether a new worker fits under the threshold, given the usage so far
+   * plus what running workers are still expected to grow by.
+   */
+  canAfford(usage: number, pendingGrowth: number): boolean {
+    return (
+      usage + pendingGrowth + this.predictWorkerCost() <= this.thresholdBytes
+    );
+  }
+}
@@ -0,0 +1,1071 @@
+// src/tools/orchestrator.ts - Embeddable master-worker ESLint orchestrator
+
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { EventEmitter } from "events";
+import { fileURLToPath } from "url";
+import { fork, ChildProcess } from "child_process";
+import { glob } from "glob";
+import { ESLint } from "eslint";
+import { DEFAULT_CONFIG } from "./defaults.ts";
+import { ConfigConverter } from "./config-converter.ts";
+import {
+  findFlatConfig,
+  findLegacyConfig,
+  findNestedConfigs,
+  isFlatConfigFile,
+} from "./legacy-config.ts";
+import { MemProfiler } from "./mem-profiler.ts";
+import { MemoryBudget } from "./memory-budget.ts";
+import { ProjectGraph } from "./project-graph.ts";
+import { ResultCache } from "./result-cache.ts";
+import { FixWriter } from "./fix-writer.ts";
+import { ConfigurationError, evaluateGate } from "./exit-codes.ts";
+import { EventLog } from "./event-log.ts";
+import { writeHtmlReport } from "./html-report.ts";
+import {
+  ChangedLines,
+  getGitChanges,
+  filterToChangedLines,
+} from "./git-changes.ts";
+import { TestConfig } from "./test-scenarios.ts";
+import { sortResults } from "./report.ts";
+import {
+  applySuppressions,
+  loadSuppressions,
+  recordSuppressions,
+  writeSuppressions,
+  SuppressionsFile,
+} from "./suppressions.ts";
+import {
+  HEARTBEAT_FD,
+  LintTask,
+  FileResult,
+  WorkerError,
+  WorkerMessage,
+  Batch,
+  WorkerState,
+  FailedFile,
+  FailureReason,
+  Summary,
+  OrchestratorConfig,
+  OrchestratorEvents,
+  Progress,
+} from "./types.ts";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export interface OrchestratorOptions extends Partial<OrchestratorConfig> {
+  cwd?: string; // Project root (default: process.cwd())
+  test?: TestConfig; // Failure simulation passed to workers
+}
+
+export interface OrchestratorResult {
+  summary: Summary;
+  results: ESLint.LintResult[]; // Sorted by file path
+  flatConfigPath: string; // Config the workers linted with
+  outputFiles: string[]; // Written to the output directory, relative to it
+}
+
+/**
+ * Lints files across a pool of worker processes. Progress is reported
+ * through typed events; nothing is printed and the process is never exited.
+ */
+export class Orchestrator extends EventEmitter<OrchestratorEvents> {
+  readonly config: OrchestratorConfig;
+  readonly projectRoot: string;
+  readonly outputDir: string;
+  private testConfig: TestConfig;
+  private memoryBudget: MemoryBudget;
+
+  // ============ State ============
+  private batchIdCounter = 0;
+  private workerIdCounter = 0;
+  private pendingBatches: Batch[] = [];
+  private activeWorkers: Map<number, WorkerState> = new Map();
+  private completedResults: Map<number, ESLint.LintResult[]> = new Map();
+  private failedFiles: FailedFile[] = [];
+  private filesToLint = 0;
+  private lintedFiles = 0;
+  private firstBatchStart = 0;
+  private resultCache: ResultCache | null = null;
+  private cachedResults: ESLint.LintResult[] = [];
+  private changedLines: ChangedLines | null = null;
+  private suppressionsData: SuppressionsFile | null = null;
+  private fixWriter: FixWriter | null = null;
+  private workerStats: Map<number, Summary["workers"][number]> = new Map();
+  private flatConfigPath = "";
+  private outputFiles: string[] = [];
+  private started = false;
+  private finished = false;
+  private profiler = new MemProfiler();
+  private watchdog: ReturnType<typeof setInterval> | null = null;
+  private resolveRun: ((result: OrchestratorResult) => void) | null = null;
+  private rejectRun: ((err: unknown) => void) | null = null;
+
+  constructor(options: OrchestratorOptions = {}) {
+    super();
+    const { cwd, test, ...config } = options;
+    this.config = { ...DEFAULT_CONFIG, ...stripUndefined(config) };
+    this.projectRoot = path.resolve(cwd ?? process.cwd());
+    this.outputDir = path.resolve(this.projectRoot, this.config.outputDir);
+    this.testConfig = test ?? { scenario: "none" };
+    this.memoryBudget = new MemoryBudget(
+      this.config.memoryThresholdPercent,
+      this.config.defaultWorkerCostMB * 1024 * 1024,
+      this.config.containerLimitMB,
+    );
+  }
+
+  /**
+   * Convert the config, discover and batch files, and lint them. Resolves
+   * once every worker has exited.
+   */
+  async run(): Promise<OrchestratorResult> {
+    if (this.started) {
+      throw new Error("Orchestrator.run() can only be called once");
+    }
+    this.started = true;
+
+    // Create output directory
+    fs.mkdirSync(this.outputDir, { recursive: true });
+
+    // Everything from here on is logged, for debugging runs after the fact
+    const eventLog = new EventLog(path.join(this.outputDir, "events.ndjson"));
+    this.outputFiles.push("events.ndjson");
+    eventLog.attach(this);
+
+    this.emit("run:start", {
+      cwd: this.projectRoot,
+      outputDir: this.outputDir,
+      memoryLimitBytes: this.memoryBudget.limitBytes,
+      memoryLimitSource: this.memoryBudget.limitSource,
+      memoryThresholdPercent: this.config.memoryThresholdPercent,
+    });
+
+    // Every failure is logged and the log is closed, however the run ends
+    try {
+      const toLint = await this.readInputs();
+
+      // 5. Create initial batches
+      this.filesToLint = toLint.length;
+      const batches = this.createBatches(toLint);
+      this.pendingBatches.push(...batches);
+      this.emit("batches:created", {
+        strategy: this.config.batchStrategy,
+        batches,
+      });
+
+      // 6. Start master memory profiling
+      this.profiler.start(500);
+
+      // Watch for hung workers (unref'd: live workers keep the process running)
+      this.watchdog = setInterval(() => this.checkWorkerHealth(), 1000);
+      this.watchdog.unref();
+
+      // 7. Start processing
+      return await new Promise<OrchestratorResult>((resolve, reject) => {
+        this.resolveRun = resolve;
+        this.rejectRun = reject;
+        this.processNextBatch();
+      });
+    } catch (err: unknown) {
+      this.profiler.stop();
+      if (this.watchdog !== null) {
+        clearInterval(this.watchdog);
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      eventLog.record("run:error", { message });
+      throw err;
+    } finally {
+      eventLog.close();
+    }
+  }
+
+  /**
+   * Where the run stands; cheap enough to poll for a live display
+   */
+  getProgress(): Progress {
+    const workers = [...this.activeWorkers.values()];
+    const running = workers.flatMap((w) => (w.batch ? [w.batch] : []));
+    return {
+      totalFiles: this.filesToLint,
+      lintedFiles: this.lintedFiles,
+      failedFiles: this.failedFiles.length,
+      pendingBatches: this.pendingBatches.length,
+      retriesInFlight: [...this.pendingBatches, ...running].filter(
+        (b) => b.retries > 0,
+      ).length,
+      startTime: this.firstBatchStart,
+      workerRSSLimit: this.config.workerRecycleRSSMB * 1024 * 1024,
+      workers: workers.map((w) => ({
+        id: w.id,
+        rss: w.samples[w.samples.length - 1]?.rss ?? 0,
+        batch: w.batch,
+      })),
+    };
+  }
+
+  // ============ Helpers ============
+  /**
+   * Everything up to the batches reads the run's inputs: a failure here is
+   * for the user to fix (bad config, ref, pattern or cache location).
+   * Returns the files the workers still have to lint.
+   */
+  private async readInputs(): Promise<string[]> {
+    let toLint: string[];
+    try {
+      // 1. Use the project's flat config, or convert the legacy one (ONCE)
+      await this.prepareConfig();
+
+      // Read now so a broken file fails the run before anything is linted
+      this.suppressionsData = loadSuppressions(this.suppressionsPath());
+
+      // 2. Find the files to lint
+      const files = await glob(this.config.patterns, {
+        cwd: this.projectRoot,
+        absolute: true,
+        nodir: true,
+        ignore: [...this.config.ignore, "**/node_modules/**"],
+      });
+      this.emit("files:found", { patterns: this.config.patterns, files });
+
+      // 3. Narrow down to what the branch touched
+      toLint = this.config.changedSince
+        ? this.selectChangedFiles(files, this.config.changedSince)
+        : files;
+
+      // Fixes are only written back over content that is still unchanged
+      if (this.config.fix !== "off") {
+        this.fixWriter = new FixWriter(
+          this.config.fix,
+          this.config.fixPatch,
+          this.projectRoot,
+        );
+        this.fixWriter.snapshot(toLint);
+      }
+
+      // 4. Skip files whose content, config and type dependencies are
+      // unchanged (cached results carry no fixes, so fix runs lint everything)
+      if (this.config.cache && this.fixWriter === null) {
+        const cacheFile = path.resolve(
+          this.projectRoot,
+          this.config.cacheLocation,
+        );
+        this.resultCache = new ResultCache(cacheFile, this.projectRoot);
+        const partition = await this.resultCache.partition(
+          toLint,
+          this.flatConfigPath,
+        );
+        this.cachedResults = partition.cached;
+        toLint = partition.toLint;
+        this.emit("cache:checked", { cacheFile, ...partition });
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new ConfigurationError(message, { cause: err });
+    }
+    return toLint;
+  }
+
+  /**
+   * Find the flat config the workers lint with. A project that has
+   * migrated keeps its own; otherwise the legacy config is converted into
+   * the output directory, never the working tree. Its imports point at
+   * the project's packages, so the output directory can be anywhere.
+   */
+  private async prepareConfig(): Promise<void> {
+    const { configPath } = this.config;
+    const explicit = configPath
+      ? path.resolve(this.projectRoot, configPath)
+      : null;
+    if (explicit && !fs.existsSync(explicit)) {
+      throw new Error(`No ${configPath} found`);
+    }
+
+    let flatConfigPath: string | null = null;
+    if (!explicit) {
+      flatConfigPath = findFlatConfig(this.projectRoot);
+    } else if (isFlatConfigFile(explicit)) {
+      flatConfigPath = explicit;
+    }
+    if (flatConfigPath) {
+      this.flatConfigPath = flatConfigPath;
+      this.emit("config:detected", { flatConfigPath });
+      return;
+    }
+
+    const legacyConfigPath = explicit ?? findLegacyConfig(this.projectRoot);
+    if (!legacyConfigPath) {
+      throw new Error(
+        "No ESLint config (eslint.config.*, .eslintrc.* or eslintConfig in package.json) found",
+      );
+    }
+
+    const legacyConfig = ConfigConverter.loadLegacyConfig(legacyConfigPath);
+    const nestedConfigs = await findNestedConfigs(this.projectRoot, [
+      path.relative(this.projectRoot, this.outputDir) + "/**",
+    ]);
+    const { source, warnings } = ConfigConverter.convert(legacyConfig, {
+      cwd: this.projectRoot,
+      nested: nestedConfigs,
+      tsconfigRootDir: this.projectRoot,
+      absoluteImports: true,
+    });
+    this.flatConfigPath = path.join(this.outputDir, "eslint.config.mjs");
+    ConfigConverter.writeFlatConfig(source, this.flatConfigPath);
+    this.outputFiles.push(path.basename(this.flatConfigPath));
+
+    this.emit("config:loaded", {
+      legacyConfigPath,
+      flatConfigPath: this.flatConfigPath,
+      parser: legacyConfig.parser,
+      ruleCount: Object.keys(legacyConfig.rules ?? {}).length,
+      nestedConfigs: nestedConfigs.map((c) => c.filePath),
+      warnings,
+    });
+  }
+
+  private suppressionsPath(): string {
+    return path.resolve(this.projectRoot, this.config.suppressionsFile);
+  }
+
+  private selectChangedFiles(files: string[], ref: string): string[] {
+    const changes = getGitChanges(ref, this.projectRoot);
+    const changedSet = new Set(changes.files);
+    if (this.config.onlyChangedLines) {
+      this.changedLines = changes.lines;
+    }
+
+    const changed = files.filter((f) => changedSet.has(path.resolve(f)));
+    const dependents: string[] = [];
+    if (this.config.includeDependents) {
+      const graph = new ProjectGraph();
+      for (const file of files) {
+        if (
+          !changedSet.has(path.resolve(file)) &&
+          graph.getTypeDependencies(file).some((dep) => changedSet.has(dep))
+        ) {
+          dependents.push(file);
+        }
+      }
+    }
+
+    this.emit("changes:detected", {
+      ref,
+      base: changes.base,
+      changed,
+      dependents,
+    });
+    return [...changed, ...dependents];
+  }
+
+  private getTotalRSS(): number {
+    // Master RSS + all worker RSS
+    let total = process.memoryUsage().rss;
+    for (const worker of this.activeWorkers.values()) {
+      const lastSample = worker.samples[worker.samples.length - 1];
+      if (lastSample) {
+        total += lastSample.rss;
+      }
+    }
+    return total;
+  }
+
+  private canSpawnWorker(): boolean {
+    if (this.activeWorkers.size >= this.config.maxWorkers) {
+      return false;
+    }
+    // With nothing running, nothing would ever free memory: always allow one
+    if (this.activeWorkers.size === 0) {
+      return true;
+    }
+
+    // Running workers below the predicted peak are still expected to grow
+    const predicted = this.memoryBudget.predictWorkerCost();
+    let pendingGrowth = 0;
+    for (const worker of this.activeWorkers.values()) {
+      const lastSample = worker.samples[worker.samples.length - 1];
+      pendingGrowth += Math.max(0, predicted - (lastSample?.rss ?? 0));
+    }
+
+    const usage = this.memoryBudget.currentUsage(this.getTotalRSS());
+    return this.memoryBudget.canAfford(usage, pendingGrowth);
+  }
+
+  private createBatches(files: string[]): Batch[] {
+    const batchSize = Math.max(
+      1,
+      Math.ceil(files.length / this.config.initialBatchDivisor),
+    );
+
+    if (this.config.batchStrategy === "project") {
+      const groups = new ProjectGraph().planBatches(files, batchSize);
+      return groups.map((group) => ({
+        id: this.batchIdCounter++,
+        files: group.files,
+        retries: 0,
+        tsconfig: group.tsconfig,
+      }));
+    }
+
+    const batches: Batch[] = [];
+
+    for (let i = 0; i < files.length; i += batchSize) {
+      batches.push({
+        id: this.batchIdCounter++,
+        files: files.slice(i, i + batchSize),
+        retries: 0,
+      });
+    }
+
+    return batches;
+  }
+
+  private splitBatch(batch: Batch): Batch[] {
+    const mid = Math.ceil(batch.files.length / 2);
+    // A single file is retried on its own
+    const halves = [batch.files.slice(0, mid), batch.files.slice(mid)];
+    return halves
+      .filter((files) => files.length > 0)
+      .map((files) => ({
+        id: this.batchIdCounter++,
+        files,
+        retries: batch.retries + 1,
+        tsconfig: batch.tsconfig,
+        parentId: batch.id,
+      }));
+  }
+
+  // ============ Worker Management ============
+  private spawnWorker(batch: Batch): void {
+    const workerId = this.workerIdCounter++;
+    const workerPath = path.join(__dirname, "worker.ts");
+
+    // Pass test args to worker
+    const workerArgs: string[] = [];
+    if (this.testConfig.scenario !== "none") {
+      workerArgs.push(`--test=${this.testConfig.scenario}`);
+      if (this.testConfig.targetFile) {
+        workerArgs.push(`--test-file=${this.testConfig.targetFile}`);
+      }
+    }
+
+    const child: ChildProcess = fork(workerPath, workerArgs, {
+      cwd: this.projectRoot,
+      execArgv: ["--import", "tsx"],
+      stdio: ["inherit", "pipe", "pipe", "ipc", "pipe"],
+    });
+
+    // Emitted line by line instead of interleaving with the master's output
+    for (const stream of ["stdout", "stderr"] as const) {
+      const input = child[stream];
+      if (input) {
+        readline
+          .createInterface({ input })
+          .on("line", (line) =>
+            this.emit("worker:output", { workerId, stream, line }),
+          );
+      }
+    }
+
+    this.emit("worker:spawn", { workerId, pid: child.pid ?? 0 });
+
+    const workerState: WorkerState = {
+      id: workerId,
+      pid: child.pid ?? 0,
+      child,
+      batch: null,
+      batchesRun: 0,
+      retiring: false,
+      timeoutReason: null,
+      startTime: Date.now(),
+      batchStartTime: 0,
+      batchFiles: 0,
+      lastHeartbeat: 0,
+      lastMessage: 0,
+      samples: [],
+    };
+
+    const heartbeat = child.stdio[HEARTBEAT_FD];
+    if (heartbeat) {
+      readline
+        .createInterface({ input: heartbeat as NodeJS.ReadableStream })
+        .on("line", () => {
+          workerState.lastHeartbeat = Date.now();
+        });
+    }
+
+    this.activeWorkers.set(workerId, workerState);
+    this.workerStats.set(workerId, {
+      id: workerId,
+      files: 0,
+      batches: 0,
+      peakRSS: 0,
+      duration: 0,
+    });
+
+    // Handle messages from worker
+    child.on("message", (msg: WorkerMessage) => {
+      workerState.lastMessage = Date.now();
+      this.handleWorkerMessage(workerState, msg);
+    });
+
+    // Handle worker exit
+    child.on("exit", (code, signal) => {
+      this.handleWorkerExit(workerState, code, signal);
+    });
+
+    child.on("error", (err) => {
+      this.activeWorkers.delete(workerId);
+      this.emit("worker:error", {
+        workerId,
+        batch: workerState.batch,
+        errorType: "unknown",
+        message: err.message,
+      });
+      if (workerState.batch) {
+        this.handleWorkerError(
+          workerState.batch,
+          workerState.batchFiles,
+          "unknown",
+          err.message,
+        );
+        workerState.batch = null;
+      }
+      this.processNextBatch();
+    });
+
+    this.assignBatch(workerState, batch, false);
+  }
+
+  private assignBatch(
+    worker: WorkerState,
+    batch: Batch,
+    reused: boolean,
+  ): void {
+    worker.batch = batch;
+    worker.batchFiles = batch.files.length;
+    worker.batchStartTime = Date.now();
+    this.firstBatchStart ||= worker.batchStartTime;
+    this.emit("batch:start", { batch, workerId: worker.id, reused });
+
+    const task: LintTask = {
+      type: "lint",
+      workerId: worker.id,
+      batchId: batch.id,
+      configPath: this.flatConfigPath,
+      tsconfig: batch.tsconfig,
+      fix: this.config.fix !== "off",
+      files: batch.files,
+    };
+    worker.child.send(task);
+  }
+
+  private handleWorkerMessage(worker: WorkerState, msg: WorkerMessage): void {
+    const batch = worker.batch;
+    this.emit("worker:message", { workerId: worker.id, batch, message: msg });
+
+    if (msg.type === "memory") {
+      worker.samples.push(msg);
+      return;
+    }
+
+    if (!batch) {
+      return;
+    }
+
+    // One file failed; the worker carries on with the rest of the batch
+    if (msg.type === "error" && msg.file !== undefined) {
+      this.quarantineFile(worker, batch, msg.file, msg);
+      return;
+    }
+
+    if (msg.type === "file") {
+      this.recordFileResult(worker, batch, msg);
+      return;
+    }
+
+    if (msg.type === "complete") {
+      this.memoryBudget.recordWorkerPeak(msg.peakRSS);
+
+      const stats = this.workerStats.get(worker.id);
+      if (stats) {
+        stats.batches++;
+        stats.peakRSS = Math.max(stats.peakRSS, msg.peakRSS);
+        stats.duration += msg.duration;
+      }
+
+      this.emit("batch:complete", {
+        batch,
+        workerId: worker.id,
+        duration: msg.duration,
+        peakRSS: msg.peakRSS,
+      });
+    } else {
+      this.emit("worker:error", {
+        workerId: worker.id,
+        batch,
+        errorType: msg.errorType,
+        message: msg.message,
+      });
+      this.handleWorkerError(
+        batch,
+        worker.batchFiles,
+        msg.errorType,
+        msg.message,
+      );
+    }
+
+    worker.batch = null;
+    worker.batchesRun++;
+
+    if (this.shouldRecycle(worker)) {
+      this.retireWorker(worker);
+    }
+
+    this.processNextBatch();
+  }
+
+  /**
+   * Keep a file's results as soon as they arrive and take the file out of
+   * its batch, so a worker crash only re-queues what is left
+   */
+  private recordFileResult(
+    worker: WorkerState,
+    batch: Batch,
+    msg: FileResult,
+  ): void {
+    const workerResults = this.completedResults.get(worker.id) ?? [];
+    workerResults.push(...msg.results);
+    this.completedResults.set(worker.id, workerResults);
+    batch.files = batch.files.filter((f) => f !== msg.file);
+    this.lintedFiles++;
+
+    const stats = this.workerStats.get(worker.id);
+    if (stats) {
+      stats.files++;
+    }
+
+    this.emit("file:complete", {
+      batch,
+      workerId: worker.id,
+      file: msg.file,
+      results: msg.results,
+    });
+  }
+
+  /**
+   * Take a file that made ESLint throw out of its batch, so neither the
+   * batch's stats nor a retry of it include the file again
+   */
+  private quarantineFile(
+    worker: WorkerState,
+    batch: Batch,
+    file: string,
+    msg: WorkerError,
+  ): void {
+    this.emit("worker:error", {
+      workerId: worker.id,
+      batch,
+      errorType: msg.errorType,
+      message: msg.message,
+      file,
+      ruleId: msg.ruleId,
+      phase: msg.phase,
+      stack: msg.stack,
+    });
+    batch.files = batch.files.filter((f) => f !== file);
+
+    const failure: FailedFile = {
+      file,
+      reason: msg.errorType,
+      message: msg.message,
+      ruleId: msg.ruleId,
+      phase: msg.phase,
+    };
+    this.failedFiles.push(failure);
+    this.emit("failure", { batch, failures: [failure] });
+  }
+
+  private handleWorkerExit(
+    worker: WorkerState,
+    code: number | null,
+    signal: NodeJS.Signals | null,
+  ): void {
+    this.activeWorkers.delete(worker.id);
+
+    // A batch still in flight means the worker died mid-lint
+    const batch = worker.batch;
+    worker.batch = null;
+    let failure: FailureReason | null = null;
+    let message = "";
+    if (batch) {
+      if (worker.timeoutReason !== null) {
+        // Our own SIGTERM/SIGKILL, not the OOM killer
+        failure = "timeout";
+        message = worker.timeoutReason;
+      } else if (signal === "SIGKILL" || code === 137) {
+        // Detect OOM (SIGKILL or exit code 137)
+        failure = "oom";
+        message = "Process killed - likely OOM";
+      } else {
+        failure = "unknown";
+        message = `Exit code ${code}`;
+      }
+    }
+
+    this.emit("worker:exit", {
+      workerId: worker.id,
+      code,
+      signal,
+      batch,
+      failure,
+    });
+
+    if (batch && failure) {
+      this.handleWorkerError(batch, worker.batchFiles, failure, message);
+    }
+
+    // Learn from workers that died too (an OOM peak is the most telling);
+    // they never sent "complete", so their sampled peak goes in the stats
+    const sampledPeak = Math.max(
+      0,
+      ...worker.samples.map((sample) => sample.rss),
+    );
+    this.memoryBudget.recordWorkerPeak(sampledPeak);
+    const stats = this.workerStats.get(worker.id);
+    if (stats) {
+      stats.peakRSS = Math.max(stats.peakRSS, sampledPeak);
+    }
+
+    // Save worker memory timeline
+    if (worker.samples.length > 0) {
+      this.writeOutput(
+        `worker-${worker.id}-memory.json`,
+        JSON.stringify(worker.samples, null, 2),
+      );
+    }
+
+    // Continue processing
+    this.processNextBatch();
+  }
+
+  private shouldRecycle(worker: WorkerState): boolean {
+    if (worker.batchesRun >= this.config.workerMaxBatches) {
+      return true;
+    }
+    const lastSample = worker.samples[worker.samples.length - 1];
+    return (
+      lastSample !== undefined &&
+      lastSample.rss >= this.config.workerRecycleRSSMB * 1024 * 1024
+    );
+  }
+
+  private retireWorker(worker: WorkerState): void {
+    if (worker.retiring) {
+      return;
+    }
+    this.emit("worker:retire", {
+      workerId: worker.id,
+      batchesRun: worker.batchesRun,
+    });
+    worker.retiring = true;
+    worker.child.send({ type: "shutdown" });
+  }
+
+  // ============ Watchdog ============
+  private checkWorkerHealth(): void {
+    const now = Date.now();
+
+    for (const worker of this.activeWorkers.values()) {
+      if (worker.batch === null || worker.timeoutReason !== null) {
+        continue;
+      }
+
+      // The heartbeat comes from a thread linting can't block, so a gap
+      // means the process itself is stuck. Its clock starts with the first
+      // beat: startup isn't counted. A rule that never returns blocks the
+      // main thread instead, which then sends no results or memory samples.
+      const sinceBeat = now - worker.lastHeartbeat;
+      const sinceMessage =
+        now - Math.max(worker.lastMessage, worker.batchStartTime);
+
+      if (now - worker.batchStartTime > this.config.batchTimeoutMs) {
+        this.terminateWorker(
+          worker,
+          `Batch ${worker.batch.id} exceeded ${this.config.batchTimeoutMs}ms`,
+        );
+      } else if (
+        worker.lastHeartbeat > 0 &&
+        sinceBeat > this.config.heartbeatTimeoutMs
+      ) {
+        this.terminateWorker(
+          worker,
+          `No heartbeat for ${sinceBeat}ms on batch ${worker.batch.id}`,
+        );
+      } else if (sinceMessage > this.config.stallTimeoutMs) {
+        this.terminateWorker(
+          worker,
+          `No progress for ${sinceMessage}ms on batch ${worker.batch.id}`,
+        );
+      }
+    }
+  }
+
+  private terminateWorker(worker: WorkerState, reason: string): void {
+    this.emit("worker:timeout", { workerId: worker.id, reason });
+    worker.timeoutReason = reason;
+    worker.child.kill("SIGTERM");
+
+    const killTimer = setTimeout(() => {
+      if (worker.child.exitCode === null && worker.child.signalCode === null) {
+        this.emit("worker:sigkill", { workerId: worker.id });
+        worker.child.kill("SIGKILL");
+      }
+    }, this.config.killGraceMs);
+    worker.child.once("exit", () => clearTimeout(killTimer));
+  }
+
+  /**
+   * A batch the worker didn't finish. `batch.files` only holds the files
+   * it hadn't reported yet; `assigned` is how many it was handed.
+   */
+  private handleWorkerError(
+    batch: Batch,
+    assigned: number,
+    errorType: FailureReason,
+    message: string,
+  ): void {
+    if (batch.files.length === 0) {
+      return; // Every file was reported before the worker went down
+    }
+
+    // A file left over from a larger batch hasn't been retried on its own yet
+    let notRetried: OrchestratorEvents["failure"][0]["notRetried"];
+    if (errorType !== "oom" && errorType !== "timeout") {
+      notRetried = "not-retryable";
+    } else if (batch.retries >= this.config.maxRetries) {
+      notRetried = "max-retries";
+    } else if (batch.files.length === 1 && assigned === 1) {
+      notRetried = "single-file";
+    } else {
+      // Split what is left and retry
+      const children = this.splitBatch(batch);
+      this.pendingBatches.push(...children);
+      this.emit("batch:retry", { batch, reason: errorType, message, children });
+      return;
+    }
+
+    // Errors of single files arrive with the file; this one took the batch
+    const failures: FailedFile[] = batch.files.map((f) => ({
+      file: f,
+      reason: errorType,
+      message,
+    }));
+    this.failedFiles.push(...failures);
+    this.emit("failure", { batch, failures, notRetried });
+  }
+
+  private processNextBatch(): void {
+    if (this.finished) {
+      return;
+    }
+
+    // Idle workers already have a warm TS program, so prefer them
+    for (const worker of this.activeWorkers.values()) {
+      if (this.pendingBatches.length === 0) {
+        break;
+      }
+      if (worker.batch === null && !worker.retiring) {
+        this.assignBatch(worker, this.pendingBatches.shift()!, true);
+      }
+    }
+
+    while (this.pendingBatches.length > 0 && this.canSpawnWorker()) {
+      this.spawnWorker(this.pendingBatches.shift()!);
+    }
+
+    if (this.pendingBatches.length > 0) {
+      return;
+    }
+
+    // Nothing left to hand out: let idle workers go once nobody is busy,
+    // since a busy worker may still produce retry batches
+    const workers = [...this.activeWorkers.values()];
+    if (workers.every((w) => w.batch === null)) {
+      for (const worker of workers) {
+        this.retireWorker(worker);
+      }
+    }
+
+    // Check if all done. This runs in child process handlers, where a
+    // throw would be uncaught and leave run() pending forever.
+    if (this.activeWorkers.size === 0) {
+      try {
+        this.finalize();
+      } catch (err: unknown) {
+        this.rejectRun?.(err);
+      }
+    }
+  }
+
+  // ============ Finalization ============
+  private finalize(): void {
+    this.finished = true;
+    if (this.watchdog !== null) {
+      clearInterval(this.watchdog);
+    }
+
+    // Aggregate results
+    let totalErrors = 0;
+    let totalWarnings = 0;
+    const results: ESLint.LintResult[] = [];
+    const freshResults: ESLint.LintResult[] = [];
+
+    for (const [workerId, workerResults] of this.completedResults) {
+      // Write per-worker results (streamed, so also of workers that crashed)
+      this.writeOutput(
+        `worker-${workerId}-results.json`,
+        JSON.stringify(workerResults, null, 2),
+      );
+
+      freshResults.push(...workerResults);
+    }
+
+    if (this.resultCache) {
+      this.resultCache.update(
+        freshResults,
+        this.failedFiles.map((f) => f.file),
+      );
+      this.resultCache.save();
+    }
+
+    const fixes = this.fixWriter?.apply(freshResults) ?? null;
+
+    let merged = [...freshResults, ...this.cachedResults];
+
+    // Suppressions see every message, before the changed-lines filter,
+    // so recorded violations outside the diff aren't reported as stale
+    const suppressionsFile = this.suppressionsPath();
+    if (this.config.updateSuppressions) {
+      const recorded = recordSuppressions(
+        merged,
+        this.suppressionsData,
+        this.projectRoot,
+      );
+      writeSuppressions(suppressionsFile, recorded);
+      this.suppressionsData = loadSuppressions(suppressionsFile);
+      this.emit("suppressions:updated", {
+        file: suppressionsFile,
+        count: recorded.length,
+      });
+    }
+    let suppressions: Summary["suppressions"] = null;
+    if (this.suppressionsData) {
+      const outcome = applySuppressions(
+        merged,
+        this.suppressionsData,
+        this.projectRoot,
+        this.config.suppressionsFile,
+      );
+      merged = outcome.results;
+      suppressions = {
+        file: suppressionsFile,
+        suppressed: outcome.suppressed,
+        stale: outcome.stale,
+      };
+    }
+
+    if (this.changedLines) {
+      merged = filterToChangedLines(merged, this.changedLines);
+    }
+
+    for (const r of merged) {
+      results.push(r);
+      totalErrors += r.errorCount;
+      totalWarnings += r.warningCount;
+    }
+
+    // Build summary
+    const workers = [...this.workerStats.values()];
+    const allFiles =
+      workers.reduce((sum, w) => sum + w.files, 0) +
+      this.cachedResults.length +
+      this.failedFiles.length;
+    const summary: Summary = {
+      batchStrategy: this.config.batchStrategy,
+      peakRSS: workers.reduce((max, w) => Math.max(max, w.peakRSS), 0),
+      totalFiles: allFiles,
+      processedFiles: results.length,
+      cachedFiles: this.cachedResults.length,
+      failedFiles: this.failedFiles.length,
+      totalErrors,
+      totalWarnings,
+      workers,
+      memory: {
+        limitBytes: this.memoryBudget.limitBytes,
+        limitSource: this.memoryBudget.limitSource,
+        predictedWorkerCost: this.memoryBudget.predictWorkerCost(),
+      },
+      suppressions,
+      fixes,
+      failures: this.failedFiles,
+      gate: evaluateGate(results, this.failedFiles, {
+        failOn: this.config.failOn,
+        maxWarnings: this.config.maxWarnings,
+        ruleBudgets: this.config.ruleBudgets,
+      }),
+    };
+
+    this.writeOutput("summary.json", JSON.stringify(summary, null, 2));
+
+    // Save master memory timeline
+    this.profiler.stop();
+    this.profiler.dump(path.join(this.outputDir, "master-memory.json"));
+    this.outputFiles.push("master-memory.json");
+
+    const reportFile = writeHtmlReport({
+      outputDir: this.outputDir,
+      cwd: this.projectRoot,
+      summary,
+      results: sortResults(results),
+    });
+    this.outputFiles.push(path.basename(reportFile));
+
+    this.emit("run:complete", { summary });
+    this.resolveRun?.({
+      summary,
+      results: sortResults(results),
+      flatConfigPath: this.flatConfigPath,
+      outputFiles: [...this.outputFiles].sort((a, b) =>
+        a.localeCompare(b, undefined, { numeric: true }),
+      ),
+    });
+  }
+
+  /**
+   * Write a file into the output directory and remember it for the listing
+   */
+  private writeOutput(name: string, content: string): void {
+    fs.writeFileSync(path.join(this.outputDir, name), content);
+    this.outputFiles.push(name);
+  }
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+/**
+ * Lint with a fresh orchestrator and resolve with its summary and results
+ */
+export function runParallelLint(
+  options: OrchestratorOptions = {},
+): Promise<OrchestratorResult> {
+  return new Orchestrator(options).run();
+}
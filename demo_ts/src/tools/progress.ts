@@ -0,0 +1,191 @@
+// src/tools/progress.ts - Live progress display for the master CLI
+
+import readline from "readline";
+import { Orchestrator } from "./orchestrator.ts";
+import { Progress } from "./types.ts";
+
+// tty: a status block redrawn below the log; lines: a plain line now and then
+export type ProgressMode = "tty" | "lines";
+
+/**
+ * Where the console reporter writes; `console` is one
+ */
+export interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+const REDRAW_MS = 250;
+const BAR_WIDTH = 10;
+const LINE_STEP_PERCENT = 10; // lines mode: print at every 10% of the files
+
+// ============ Formatting ============
+
+function mb(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)}MB`;
+}
+
+function duration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m${String(seconds % 60).padStart(2, "0")}s`;
+  }
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function bar(value: number, max: number): string {
+  const filled = Math.min(
+    BAR_WIDTH,
+    Math.round((value / Math.max(1, max)) * BAR_WIDTH),
+  );
+  return "█".repeat(filled) + "░".repeat(BAR_WIDTH - filled);
+}
+
+/**
+ * Files per second since the first batch started, and the time left at
+ * that rate; null until a file is done
+ */
+function throughput(
+  progress: Progress,
+  now: number,
+): { rate: number; eta: number } | null {
+  const done = progress.lintedFiles + progress.failedFiles;
+  const elapsed = now - progress.startTime;
+  if (progress.startTime === 0 || done === 0 || elapsed <= 0) {
+    return null;
+  }
+  const rate = done / (elapsed / 1000);
+  return { rate, eta: ((progress.totalFiles - done) / rate) * 1000 };
+}
+
+/**
+ * "120/5000 files (2%) · 3 failed · 12.3 files/s · ETA 6m36s"
+ */
+function formatHeadline(progress: Progress, now: number): string {
+  const done = progress.lintedFiles + progress.failedFiles;
+  const percent =
+    progress.totalFiles > 0
+      ? Math.floor((done / progress.totalFiles) * 100)
+      : 100;
+  const parts = [`${done}/${progress.totalFiles} files (${percent}%)`];
+  if (progress.failedFiles > 0) {
+    parts.push(`${progress.failedFiles} failed`);
+  }
+  const speed = throughput(progress, now);
+  parts.push(
+    speed
+      ? `${speed.rate.toFixed(1)} files/s · ETA ${duration(speed.eta)}`
+      : "ETA --",
+  );
+  return parts.join(" · ");
+}
+
+function formatBlock(progress: Progress, now: number): string[] {
+  const lines = [`⏳ ${formatHeadline(progress, now)}`];
+  for (const w of progress.workers) {
+    const batch = w.batch
+      ? `batch ${w.batch.id}, ${w.batch.files.length} files left`
+      : "idle";
+    lines.push(
+      `   Worker ${w.id} ${bar(w.rss, progress.workerRSSLimit)} ${mb(w.rss).padStart(6)}  ${batch}`,
+    );
+  }
+  lines.push(
+    `   ${progress.pendingBatches} batches pending · ${progress.retriesInFlight} retries in flight`,
+  );
+  return lines;
+}
+
+// ============ Display ============
+
+/**
+ * Shows how far an orchestrator run is. Log output written through it is
+ * kept above the status block in tty mode, on the same stream; errors
+ * always go to stderr.
+ */
+export class ProgressDisplay implements Logger {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private drawnLines = 0;
+  private lastStep = 0;
+
+  constructor(
+    private orchestrator: Orchestrator,
+    readonly mode: ProgressMode,
+    private stream: NodeJS.WriteStream = process.stdout,
+  ) {
+    orchestrator.on("batches:created", () => this.start());
+    orchestrator.on("file:complete", () => this.maybePrintLine());
+    orchestrator.on("failure", () => this.maybePrintLine());
+    orchestrator.on("run:complete", () => this.stop());
+  }
+
+  log(message: string): void {
+    this.write(() => this.stream.write(`${message}\n`));
+  }
+
+  error(message: string): void {
+    this.write(() => console.error(message));
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.clear();
+  }
+
+  private start(): void {
+    if (this.mode === "tty" && this.timer === null) {
+      this.timer = setInterval(() => this.redraw(), REDRAW_MS);
+      this.timer.unref();
+    }
+  }
+
+  private write(print: () => void): void {
+    this.clear();
+    print();
+    if (this.timer !== null) {
+      this.redraw();
+    }
+  }
+
+  private clear(): void {
+    if (this.drawnLines > 0) {
+      readline.moveCursor(this.stream, 0, -this.drawnLines);
+      readline.clearScreenDown(this.stream);
+      this.drawnLines = 0;
+    }
+  }
+
+  private redraw(): void {
+    // Cut to the terminal width so every line takes exactly one row (the
+    // emoji is two columns wide)
+    const width = (this.stream.columns || 80) - 2;
+    const lines = formatBlock(this.orchestrator.getProgress(), Date.now()).map(
+      (line) => line.slice(0, width),
+    );
+    this.clear();
+    this.stream.write(`${lines.join("\n")}\n`);
+    this.drawnLines = lines.length;
+  }
+
+  private maybePrintLine(): void {
+    if (this.mode !== "lines") {
+      return;
+    }
+    const progress = this.orchestrator.getProgress();
+    const done = progress.lintedFiles + progress.failedFiles;
+    const step = Math.floor(
+      (done / Math.max(1, progress.totalFiles)) * (100 / LINE_STEP_PERCENT),
+    );
+    if (step > this.lastStep) {
+      this.lastStep = step;
+      this.stream.write(`[Progress] ${formatHeadline(progress, Date.now())}\n`);
+    }
+  }
+}
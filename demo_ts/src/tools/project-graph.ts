@@ -0,0 +1,337 @@
+// src/tools/project-graph.ts - tsconfig ownership and import graph for batching
+
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+
+interface ProjectInfo {
+  configPath: string;
+  fileNames: Set<string>;
+  options: ts.CompilerOptions;
+  references: ProjectInfo[];
+}
+
+export interface FileGroup {
+  tsconfig?: string; // Owning tsconfig, undefined if none was found
+  files: string[];
+}
+
+function normalize(file: string): string {
+  return path.resolve(file);
+}
+
+function formatDiagnostic(diagnostic: ts.Diagnostic): string {
+  return ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+}
+
+/**
+ * Resolves which tsconfig owns each file (following project references)
+ * and which of the given files import each other.
+ */
+export class ProjectGraph {
+  private projects = new Map<string, ProjectInfo>();
+  private nearestConfig = new Map<string, string | undefined>();
+  private imports = new Map<string, string[]>();
+
+  /**
+   * Group files by owning tsconfig, then pack files that import each other
+   * into the same batch. Batches never mix projects; a connected group
+   * larger than batchSize is cut into batchSize chunks along its imports,
+   * so most imports of a file still land in its own batch.
+   */
+  planBatches(files: string[], batchSize: number): FileGroup[] {
+    const byProject = new Map<string | undefined, string[]>();
+    for (const file of files) {
+      const key = this.findOwner(file)?.configPath;
+      const projectFiles = byProject.get(key) ?? [];
+      projectFiles.push(normalize(file));
+      byProject.set(key, projectFiles);
+    }
+
+    const groups: FileGroup[] = [];
+    for (const [tsconfig, projectFiles] of byProject) {
+      const options = tsconfig
+        ? (this.projects.get(tsconfig)?.options ?? {})
+        : {};
+      const components = this.connectedComponents(
+        projectFiles,
+        options,
+      ).flatMap((component) =>
+        component.length > batchSize
+          ? chunk(this.importOrder(component, options), batchSize)
+          : [component],
+      );
+      for (const batchFiles of packComponents(components, batchSize)) {
+        groups.push({ tsconfig, files: batchFiles });
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Path of the tsconfig that owns a file, if any
+   */
+  getOwner(file: string): string | undefined {
+    return this.findOwner(file)?.configPath;
+  }
+
+  /**
+   * Everything a file's type information can depend on: its transitive
+   * imports, the global declaration files of its project, and the
+   * tsconfig itself. Sorted, without the file.
+   */
+  getTypeDependencies(file: string): string[] {
+    const absolute = normalize(file);
+    const owner = this.findOwner(absolute);
+    const options = owner?.options ?? {};
+    const deps = new Set<string>();
+
+    const stack = [absolute];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      for (const dep of this.directImports(current, options)) {
+        if (!deps.has(dep)) {
+          deps.add(dep);
+          stack.push(dep);
+        }
+      }
+    }
+
+    if (owner) {
+      deps.add(owner.configPath);
+      for (const projectFile of owner.fileNames) {
+        if (projectFile.endsWith(".d.ts")) {
+          deps.add(projectFile);
+        }
+      }
+    }
+
+    deps.delete(absolute);
+    return [...deps].sort();
+  }
+
+  /**
+   * Find the project that owns a file: referenced projects win over the
+   * project that references them, and the nearest tsconfig wins over
+   * ones further up the directory tree.
+   */
+  private findOwner(file: string): ProjectInfo | undefined {
+    const absolute = normalize(file);
+    let dir = path.dirname(absolute);
+
+    for (;;) {
+      const configPath = this.findNearestConfig(dir);
+      if (!configPath) {
+        return undefined;
+      }
+
+      const owner = this.findInProject(
+        this.loadProject(configPath),
+        absolute,
+        new Set(),
+      );
+      if (owner) {
+        return owner;
+      }
+
+      const parent = path.dirname(path.dirname(configPath));
+      if (parent === path.dirname(configPath)) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  }
+
+  private findInProject(
+    project: ProjectInfo,
+    file: string,
+    seen: Set<string>,
+  ): ProjectInfo | undefined {
+    if (seen.has(project.configPath)) {
+      return undefined;
+    }
+    seen.add(project.configPath);
+
+    for (const ref of project.references) {
+      const owner = this.findInProject(ref, file, seen);
+      if (owner) {
+        return owner;
+      }
+    }
+    return project.fileNames.has(file) ? project : undefined;
+  }
+
+  private findNearestConfig(dir: string): string | undefined {
+    if (this.nearestConfig.has(dir)) {
+      return this.nearestConfig.get(dir);
+    }
+    const found = ts.findConfigFile(dir, ts.sys.fileExists, "tsconfig.json");
+    const configPath = found ? normalize(found) : undefined;
+    this.nearestConfig.set(dir, configPath);
+    return configPath;
+  }
+
+  private loadProject(configPath: string): ProjectInfo {
+    const cached = this.projects.get(configPath);
+    if (cached) {
+      return cached;
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      throw new Error(
+        `Failed to read ${configPath}: ${formatDiagnostic(error)}`,
+      );
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(
+      config,
+      ts.sys,
+      path.dirname(configPath),
+      undefined,
+      configPath,
+    );
+
+    const project: ProjectInfo = {
+      configPath,
+      fileNames: new Set(parsed.fileNames.map(normalize)),
+      options: parsed.options,
+      references: [],
+    };
+    // Register before following references so cycles terminate
+    this.projects.set(configPath, project);
+
+    for (const ref of parsed.projectReferences ?? []) {
+      const refPath = normalize(ts.resolveProjectReferencePath(ref));
+      if (fs.existsSync(refPath)) {
+        project.references.push(this.loadProject(refPath));
+      }
+    }
+
+    return project;
+  }
+
+  private connectedComponents(
+    files: string[],
+    options: ts.CompilerOptions,
+  ): string[][] {
+    const parent = new Map<string, string>(files.map((f) => [f, f]));
+
+    const find = (f: string): string => {
+      let root = f;
+      while (parent.get(root) !== root) {
+        root = parent.get(root)!;
+      }
+      parent.set(f, root);
+      return root;
+    };
+
+    for (const file of files) {
+      for (const dep of this.directImports(file, options)) {
+        if (parent.has(dep)) {
+          parent.set(find(dep), find(file));
+        }
+      }
+    }
+
+    const components = new Map<string, string[]>();
+    for (const file of files) {
+      const root = find(file);
+      const component = components.get(root) ?? [];
+      component.push(file);
+      components.set(root, component);
+    }
+    return [...components.values()];
+  }
+
+  /**
+   * The files of a component, depth first along their imports, so that
+   * consecutive files mostly import each other
+   */
+  private importOrder(files: string[], options: ts.CompilerOptions): string[] {
+    const inComponent = new Set(files);
+    const visited = new Set<string>();
+    const order: string[] = [];
+
+    for (const root of files) {
+      const stack = [root];
+      while (stack.length > 0) {
+        const file = stack.pop()!;
+        if (visited.has(file)) {
+          continue;
+        }
+        visited.add(file);
+        order.push(file);
+        for (const dep of this.directImports(file, options)) {
+          if (inComponent.has(dep) && !visited.has(dep)) {
+            stack.push(dep);
+          }
+        }
+      }
+    }
+    return order;
+  }
+
+  private directImports(file: string, options: ts.CompilerOptions): string[] {
+    let direct = this.imports.get(file);
+    if (!direct) {
+      direct = resolveImports(file, options);
+      this.imports.set(file, direct);
+    }
+    return direct;
+  }
+}
+
+/**
+ * Resolve the relative and path-mapped imports of a file to absolute paths
+ */
+export function resolveImports(
+  file: string,
+  options: ts.CompilerOptions,
+): string[] {
+  const text = fs.readFileSync(file, "utf8");
+  const { importedFiles } = ts.preProcessFile(text, true, true);
+  const resolved: string[] = [];
+
+  for (const imported of importedFiles) {
+    const { resolvedModule } = ts.resolveModuleName(
+      imported.fileName,
+      file,
+      options,
+      ts.sys,
+    );
+    if (resolvedModule && !resolvedModule.isExternalLibraryImport) {
+      resolved.push(normalize(resolvedModule.resolvedFileName));
+    }
+  }
+
+  return resolved;
+}
+
+function chunk(files: string[], size: number): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < files.length; i += size) {
+    chunks.push(files.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * First-fit decreasing: biggest groups first, each into the first batch
+ * with room left.
+ */
+function packComponents(components: string[][], batchSize: number): string[][] {
+  const sorted = [...components].sort((a, b) => b.length - a.length);
+  const bins: string[][] = [];
+
+  for (const component of sorted) {
+    const bin = bins.find((b) => b.length + component.length <= batchSize);
+    if (bin) {
+      bin.push(...component);
+    } else {
+      bins.push([...component]);
+    }
+  }
+
+  return bins;
+}
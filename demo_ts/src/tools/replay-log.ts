@@ -0,0 +1,224 @@
+// src/tools/replay-log.ts - Print an orchestrator event log as a timeline
+
+import path from "path";
+import { parseArgs } from "util";
+import { LogEntry, readEventLog } from "./event-log.ts";
+import { DEFAULT_CONFIG } from "./defaults.ts";
+import { parseInteger } from "./cli.ts";
+
+const projectRoot = process.cwd();
+
+interface ReplayOptions {
+  help: boolean;
+  file: string;
+  memory: boolean; // Show every memory sample
+  workerId: number | null;
+  batchId: number | null; // This batch and the batches split from it
+}
+
+function parseReplayArgs(argv: string[]): ReplayOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      help: { type: "boolean", short: "h" },
+      memory: { type: "boolean" },
+      worker: { type: "string" },
+      batch: { type: "string" },
+    },
+  });
+
+  return {
+    help: values.help ?? false,
+    file:
+      positionals[0] ?? path.join(DEFAULT_CONFIG.outputDir, "events.ndjson"),
+    memory: values.memory ?? false,
+    workerId:
+      values.worker === undefined
+        ? null
+        : parseInteger("worker", values.worker, 0, 0),
+    batchId:
+      values.batch === undefined
+        ? null
+        : parseInteger("batch", values.batch, 0, 0),
+  };
+}
+
+function printHelp(): void {
+  console.log(`
+Usage: npm run replay-log -- [options] [log file]
+
+Prints the event log of a run (default: ${DEFAULT_CONFIG.outputDir}/events.ndjson)
+as a timeline: elapsed time, worker, batch lineage and what happened.
+
+Options:
+  --worker <id>         Only events of this worker
+  --batch <id>          Only events of this batch and the batches split from it
+  --memory              Include every memory sample (hidden by default)
+  -h, --help            Show this help
+`);
+}
+
+// ============ Formatting ============
+
+type MessageEntry = Extract<LogEntry, { event: "worker:message" }>;
+
+function mb(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)}MB`;
+}
+
+function relative(file: string): string {
+  return path.relative(projectRoot, file);
+}
+
+function firstLine(text: string): string {
+  return text.split("\n")[0]!;
+}
+
+function describeMessage(message: MessageEntry["message"]): string {
+  switch (message.type) {
+    case "memory":
+      return `RSS ${mb(message.rss)}, heap ${mb(message.heapUsed)}`;
+    case "file":
+      return `Linted ${relative(message.file)}: ${message.errors} errors, ${message.warnings} warnings`;
+    case "complete":
+      return `Finished batch in ${message.duration}ms, peak RSS ${mb(message.peakRSS)}`;
+    case "error": {
+      const where =
+        message.file !== undefined ? ` in ${relative(message.file)}` : "";
+      const rule = message.ruleId !== undefined ? ` (${message.ruleId})` : "";
+      return `${message.errorType}${where}${rule}: ${firstLine(message.message)}`;
+    }
+  }
+}
+
+/**
+ * What happened, in one line (or a few, for failures)
+ */
+function describe(e: LogEntry): string {
+  switch (e.event) {
+    case "run:start":
+      return `Run started in ${e.cwd}, memory limit ${mb(e.memoryLimitBytes)} (${e.memoryLimitSource}), spawn threshold ${e.memoryThresholdPercent}%`;
+    case "config:detected":
+      return `Using flat config ${relative(e.flatConfigPath)}`;
+    case "config:loaded":
+      return `Converted ${relative(e.legacyConfigPath)} (${e.ruleCount} rules, ${e.warnings} warnings)`;
+    case "files:found":
+      return `Found ${e.files} files`;
+    case "changes:detected":
+      return `${e.changed} files changed since ${e.ref}, ${e.dependents} dependents`;
+    case "cache:checked":
+      return `Cache: ${e.cached} unchanged, ${e.toLint} to lint`;
+    case "batches:created": {
+      const sizes = e.batches.map((b) => `#${b.id}: ${b.files}`).join(", ");
+      return `Created ${e.batches.length} batches (${e.strategy}): ${sizes}`;
+    }
+    case "worker:spawn":
+      return `Spawned, PID ${e.pid}`;
+    case "batch:start":
+      return `Started ${e.files.length} files${e.reused ? " (reused worker)" : ""}`;
+    case "worker:message":
+      return describeMessage(e.message);
+    case "worker:output":
+      return `${e.stream}| ${e.line}`;
+    case "batch:retry": {
+      const split = e.children
+        .map((c) => `#${c.id} (${c.files.length} files)`)
+        .join(" + ");
+      return `${e.reason}: split into ${split}`;
+    }
+    case "failure": {
+      const why =
+        e.notRetried !== undefined ? `, not retried: ${e.notRetried}` : "";
+      return [
+        `${e.failures.length} files failed${why}`,
+        ...e.failures.map(
+          (f) =>
+            `  - ${relative(f.file)}: ${f.reason} - ${firstLine(f.message)}`,
+        ),
+      ].join("\n");
+    }
+    case "worker:timeout":
+      return `Timed out: ${e.reason}`;
+    case "worker:sigkill":
+      return "Ignored SIGTERM, sent SIGKILL";
+    case "worker:retire":
+      return `Retiring after ${e.batchesRun} batches`;
+    case "worker:exit": {
+      const status =
+        e.signal !== null ? `signal ${e.signal}` : `code ${e.code}`;
+      const lost = e.failure !== null ? `, batch lost (${e.failure})` : "";
+      return `Exited with ${status}${lost}`;
+    }
+    case "suppressions:updated":
+      return `Recorded ${e.count} suppressions in ${relative(e.file)}`;
+    case "run:complete":
+      return `Run complete: ${e.processedFiles}/${e.totalFiles} files, ${e.failedFiles} failed, ${e.totalErrors} errors, ${e.totalWarnings} warnings, exit ${e.exitCode}`;
+    case "run:error":
+      return `Run failed: ${firstLine(e.message)}`;
+  }
+}
+
+function formatEntry(e: LogEntry): string {
+  const time = `+${(e.elapsedMs / 1000).toFixed(3)}s`.padStart(10);
+  const worker = (e.workerId === undefined ? "" : `W${e.workerId}`).padEnd(4);
+  const batch = (e.lineage ? `B${e.lineage.join(">")}` : "").padEnd(10);
+  const text = describe(e).replace(/\n/g, `\n${" ".repeat(28)}`);
+  return `${time}  ${worker}${batch}${text}`;
+}
+
+function isShown(e: LogEntry, options: ReplayOptions): boolean {
+  if (
+    !options.memory &&
+    e.event === "worker:message" &&
+    e.message.type === "memory"
+  ) {
+    return false;
+  }
+  if (options.workerId !== null && e.workerId !== options.workerId) {
+    return false;
+  }
+  return (
+    options.batchId === null || (e.lineage ?? []).includes(options.batchId)
+  );
+}
+
+// ============ Main ============
+function main(): void {
+  let options: ReplayOptions;
+  try {
+    options = parseReplayArgs(process.argv.slice(2));
+  } catch (err: unknown) {
+    console.error(`❌ ${err instanceof Error ? err.message : String(err)}`);
+    console.error("   Run with --help to see the available options");
+    process.exit(1);
+  }
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const entries = readEventLog(path.resolve(projectRoot, options.file));
+  const first = entries[0];
+  console.log(
+    `🎞️  ${options.file}: ${entries.length} events${first ? ` from ${first.time}` : ""}\n`,
+  );
+  for (const entry of entries) {
+    if (isShown(entry, options)) {
+      console.log(formatEntry(entry));
+    }
+  }
+
+  const last = entries[entries.length - 1];
+  if (last && last.event !== "run:complete" && last.event !== "run:error") {
+    console.log("\n⚠️ The log ends before the run completed (master killed?)");
+  }
+}
+
+try {
+  main();
+} catch (err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  console.error(`💥 Replay error: ${message}`);
+  process.exit(1);
+}
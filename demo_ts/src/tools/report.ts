@@ -0,0 +1,171 @@
+// src/tools/report.ts - Formatted reports from aggregated lint results
+
+import fs from "fs";
+import path from "path";
+import { ESLint, Linter } from "eslint";
+import { buildSarifLog } from "./sarif.ts";
+import {
+  toGitHubAnnotations,
+  toGitLabCodeQuality,
+  toJUnitXml,
+} from "./ci-reporters.ts";
+import { ConfigurationError } from "./exit-codes.ts";
+import { FailedFile } from "./types.ts";
+
+export interface ReportOptions {
+  format: string; // Any ESLint formatter name or path (stylish, json, html, ...)
+  cwd: string;
+  configPath: string; // Flat config the results were produced with
+  failures?: FailedFile[]; // Orchestrator failures, for formats that carry them
+}
+
+/**
+ * Order results by file path so output doesn't depend on which worker
+ * finished first
+ */
+export function sortResults(results: ESLint.LintResult[]): ESLint.LintResult[] {
+  return [...results].sort((a, b) =>
+    a.filePath < b.filePath ? -1 : a.filePath > b.filePath ? 1 : 0,
+  );
+}
+
+/**
+ * Copy of a result with a different set of messages and the counts
+ * recomputed to match
+ */
+export function withMessages(
+  result: ESLint.LintResult,
+  messages: Linter.LintMessage[],
+  suppressedMessages = result.suppressedMessages,
+): ESLint.LintResult {
+  const count = (severity: number, fixable: boolean) =>
+    messages.filter(
+      (m) => m.severity === severity && (!fixable || m.fix !== undefined),
+    ).length;
+
+  return {
+    ...result,
+    messages,
+    suppressedMessages,
+    errorCount: count(2, false),
+    warningCount: count(1, false),
+    fixableErrorCount: count(2, true),
+    fixableWarningCount: count(1, true),
+    fatalErrorCount: messages.filter((m) => m.fatal === true).length,
+  };
+}
+
+/**
+ * ESLint instance for the same flat config the workers used. The results
+ * came from other processes, so the config for each file is loaded here
+ * first; formatters that need rule metadata look it up from that cache.
+ */
+export async function createReportESLint(
+  results: ESLint.LintResult[],
+  cwd: string,
+  configPath: string,
+): Promise<ESLint> {
+  const eslint = new ESLint({ cwd, overrideConfigFile: configPath });
+  const files = new Set(
+    results
+      .filter((r) => r.messages.length + r.suppressedMessages.length > 0)
+      .map((r) => r.filePath),
+  );
+  for (const file of files) {
+    await eslint.calculateConfigForFile(file);
+  }
+  return eslint;
+}
+
+type ReportFormatter = (
+  results: ESLint.LintResult[],
+  failures: FailedFile[],
+  cwd: string,
+  eslint: ESLint,
+) => string;
+
+// Our own formats; they take precedence over ESLint formatter names
+const REPORT_FORMATTERS = new Map<string, ReportFormatter>([
+  [
+    "sarif",
+    (results, failures, cwd, eslint) =>
+      JSON.stringify(
+        buildSarifLog(
+          results,
+          eslint.getRulesMetaForResults(results),
+          failures,
+          cwd,
+        ),
+        null,
+        2,
+      ),
+  ],
+  ["junit", (results, failures, cwd) => toJUnitXml(results, failures, cwd)],
+  [
+    "github",
+    (results, failures, cwd) => toGitHubAnnotations(results, failures, cwd),
+  ],
+  [
+    "gitlab",
+    (results, failures, cwd) => toGitLabCodeQuality(results, failures, cwd),
+  ],
+]);
+
+/**
+ * Load a format once before anything is linted, so a typo or a formatter
+ * that isn't installed (like unix, which left ESLint core in v9) fails the
+ * run up front instead of after it
+ */
+export async function validateFormat(
+  format: string,
+  cwd: string,
+): Promise<void> {
+  if (REPORT_FORMATTERS.has(format)) {
+    return;
+  }
+  try {
+    await new ESLint({ cwd }).loadFormatter(format);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new ConfigurationError(
+      `Cannot load formatter "${format}": ${message}`,
+      { cause: err },
+    );
+  }
+}
+
+/**
+ * Run results through one of ESLint's formatters, or one of ours (sarif,
+ * junit, github, gitlab)
+ */
+export async function formatResults(
+  results: ESLint.LintResult[],
+  options: ReportOptions,
+): Promise<string> {
+  const sorted = sortResults(results);
+  const eslint = await createReportESLint(
+    sorted,
+    options.cwd,
+    options.configPath,
+  );
+
+  const custom = REPORT_FORMATTERS.get(options.format);
+  if (custom) {
+    return custom(sorted, options.failures ?? [], options.cwd, eslint);
+  }
+
+  const formatter = await eslint.loadFormatter(options.format);
+  return formatter.format(sorted);
+}
+
+/**
+ * Write a report to a file (creating its directory) or to stdout
+ */
+export function writeReport(output: string, outputFile?: string): void {
+  if (outputFile) {
+    fs.mkdirSync(path.dirname(path.resolve(outputFile)), { recursive: true });
+    fs.writeFileSync(outputFile, output, "utf8");
+  } else if (output.length > 0) {
+    console.log(output);
+  }
+}
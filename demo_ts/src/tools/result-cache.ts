@@ -0,0 +1,244 @@
+// src/tools/result-cache.ts - Master-owned lint result cache keyed by content hashes
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { ESLint, Linter } from "eslint";
+import { ProjectGraph } from "./project-graph.ts";
+
+const CACHE_VERSION = 2;
+
+interface CacheEntry {
+  key: string;
+  result: ESLint.LintResult;
+}
+
+interface CacheFile {
+  version: number;
+  eslintVersion: string;
+  entries: Record<string, CacheEntry>; // By path relative to the project root
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Package names a plugin namespace comes from, by ESLint's naming
+ * convention: foo → eslint-plugin-foo, @scope → @scope/eslint-plugin,
+ * @scope/foo → @scope/eslint-plugin-foo
+ */
+function pluginPackages(namespace: string): string[] {
+  if (!namespace.startsWith("@")) {
+    return [`eslint-plugin-${namespace}`, namespace];
+  }
+  const [scope, name] = namespace.split("/");
+  return name
+    ? [`${scope}/eslint-plugin-${name}`, namespace]
+    : [`${scope}/eslint-plugin`];
+}
+
+function packageVersion(
+  requireFromProject: NodeRequire,
+  packages: string[],
+): string | undefined {
+  for (const name of packages) {
+    try {
+      const manifest = requireFromProject.resolve(`${name}/package.json`);
+      return (
+        JSON.parse(fs.readFileSync(manifest, "utf8")) as { version: string }
+      ).version;
+    } catch {
+      // Not installed under this name (or its exports hide package.json)
+    }
+  }
+  return undefined;
+}
+
+/**
+ * name@version of the parser and every plugin a file's config uses: from
+ * their meta, else from the package the project resolves them to. The
+ * config itself only serializes their options, so without these an
+ * upgraded plugin would keep serving stale results.
+ */
+function toolVersions(
+  config: Linter.Config,
+  requireFromProject: NodeRequire,
+): string[] {
+  const versions: string[] = [];
+  for (const [namespace, plugin] of Object.entries(config.plugins ?? {})) {
+    if (namespace === "@") {
+      continue; // ESLint's own rules, covered by ESLint.version
+    }
+    const version =
+      plugin.meta?.version ??
+      packageVersion(requireFromProject, pluginPackages(namespace));
+    versions.push(`plugin:${namespace}@${version ?? "unknown"}`);
+  }
+  const parser = config.languageOptions?.parser as
+    { meta?: { name?: string; version?: string } } | undefined;
+  if (parser) {
+    versions.push(
+      `parser:${parser.meta?.name ?? "unknown"}@${parser.meta?.version ?? "unknown"}`,
+    );
+  }
+  return versions;
+}
+
+/**
+ * Maps each file to its last lint result. An entry is only reused while
+ * its key still matches: a hash of the file's content, the config ESLint
+ * resolves for it (with the versions of its parser and plugins), and the
+ * content of everything it depends on at the type level (so editing
+ * types.ts invalidates every file that imports it).
+ */
+export class ResultCache {
+  private entries: Record<string, CacheEntry> = {};
+  private keys = new Map<string, string>();
+  private contentHashes = new Map<string, string>();
+  private graph = new ProjectGraph();
+
+  constructor(
+    private cacheFile: string,
+    private projectRoot: string,
+  ) {
+    this.load();
+  }
+
+  /**
+   * Split files into cached results and files that need linting. The
+   * flat config must be the one the workers lint with.
+   */
+  async partition(
+    files: string[],
+    flatConfigPath: string,
+  ): Promise<{ cached: ESLint.LintResult[]; toLint: string[] }> {
+    const eslint = new ESLint({
+      cwd: this.projectRoot,
+      overrideConfigFile: flatConfigPath,
+    });
+    // Where the config's plugins come from; a converted config written
+    // outside the project imports them from here too
+    const requireFromProject = createRequire(
+      path.join(this.projectRoot, "package.json"),
+    );
+    const configHashes = new Map<string, string>();
+    const cached: ESLint.LintResult[] = [];
+    const toLint: string[] = [];
+
+    for (const file of files) {
+      const resolved = (await eslint.calculateConfigForFile(file)) as
+        Linter.Config | undefined;
+      if (resolved === undefined) {
+        // Ignored by the config: workers skip it, there is nothing to cache
+        toLint.push(file);
+        continue;
+      }
+
+      const config = JSON.stringify(resolved);
+      let configHash = configHashes.get(config);
+      if (!configHash) {
+        configHash = sha256(
+          [config, ...toolVersions(resolved, requireFromProject)].join("\n"),
+        );
+        configHashes.set(config, configHash);
+      }
+
+      const key = this.computeKey(file, configHash);
+      this.keys.set(path.resolve(file), key);
+
+      const entry = this.entries[this.relative(file)];
+      if (entry && entry.key === key) {
+        cached.push({ ...entry.result, filePath: path.resolve(file) });
+      } else {
+        toLint.push(file);
+      }
+    }
+
+    return { cached, toLint };
+  }
+
+  /**
+   * Record fresh results under the keys computed by partition(). Files
+   * that failed are not passed in and keep no entry.
+   */
+  update(results: ESLint.LintResult[], failedFiles: string[]): void {
+    for (const result of results) {
+      const key = this.keys.get(path.resolve(result.filePath));
+      if (key) {
+        this.entries[this.relative(result.filePath)] = { key, result };
+      }
+    }
+    for (const file of failedFiles) {
+      delete this.entries[this.relative(file)];
+    }
+  }
+
+  save(): void {
+    const sorted = Object.fromEntries(
+      Object.entries(this.entries).sort(([a], [b]) => (a < b ? -1 : 1)),
+    );
+    const data: CacheFile = {
+      version: CACHE_VERSION,
+      eslintVersion: ESLint.version,
+      entries: sorted,
+    };
+    fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+    fs.writeFileSync(this.cacheFile, JSON.stringify(data));
+  }
+
+  private load(): void {
+    let text: string;
+    try {
+      text = fs.readFileSync(this.cacheFile, "utf8");
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      // Unreadable now means unwritable after the run
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`Cannot read cache file ${this.cacheFile}: ${message}`, {
+        cause: err,
+      });
+    }
+    try {
+      const data = JSON.parse(text) as CacheFile;
+      if (
+        data.version === CACHE_VERSION &&
+        data.eslintVersion === ESLint.version
+      ) {
+        this.entries = data.entries;
+      }
+    } catch {
+      // A corrupt cache is just an empty one
+    }
+  }
+
+  private computeKey(file: string, configHash: string): string {
+    const parts = [configHash, this.hashContent(file)];
+    for (const dep of this.graph.getTypeDependencies(file)) {
+      parts.push(`${this.relative(dep)}:${this.hashContent(dep)}`);
+    }
+    return sha256(parts.join("\n"));
+  }
+
+  private hashContent(file: string): string {
+    const absolute = path.resolve(file);
+    let hash = this.contentHashes.get(absolute);
+    if (!hash) {
+      hash = fs.existsSync(absolute)
+        ? sha256(fs.readFileSync(absolute))
+        : "missing";
+      this.contentHashes.set(absolute, hash);
+    }
+    return hash;
+  }
+
+  private relative(file: string): string {
+    return path
+      .relative(this.projectRoot, path.resolve(file))
+      .split(path.sep)
+      .join("/");
+  }
+}
@@ -0,0 +1,181 @@
+// src/tools/sarif.ts - SARIF 2.1.0 log from lint results and infrastructure failures
+
+import path from "path";
+import { pathToFileURL } from "url";
+import { ESLint, Linter, Rule } from "eslint";
+import { FailedFile } from "./types.ts";
+
+// Minimal subset of the SARIF 2.1.0 object model that we emit
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: {
+      startLine: number;
+      startColumn: number;
+      endLine?: number;
+      endColumn?: number;
+    };
+  };
+}
+
+interface SarifRule {
+  id: string;
+  shortDescription?: { text: string };
+  helpUri?: string;
+  properties?: { type?: string };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: "error" | "warning";
+  message: { text: string };
+  locations: SarifLocation[];
+}
+
+interface SarifNotification {
+  level: "error" | "warning";
+  message: { text: string };
+  descriptor?: { id: string };
+  locations?: SarifLocation[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: SarifResult[];
+    invocations: {
+      executionSuccessful: boolean;
+      toolExecutionNotifications: SarifNotification[];
+    }[];
+  }[];
+}
+
+const SRCROOT = "%SRCROOT%";
+
+function toLocation(
+  filePath: string,
+  cwd: string,
+  message?: Linter.LintMessage,
+): SarifLocation {
+  const uri = path.relative(cwd, filePath).split(path.sep).join("/");
+  const location: SarifLocation = {
+    physicalLocation: { artifactLocation: { uri, uriBaseId: SRCROOT } },
+  };
+  if (message && message.line > 0) {
+    location.physicalLocation.region = {
+      startLine: message.line,
+      // SARIF columns are 1-based like ESLint's
+      startColumn: Math.max(1, message.column),
+      endLine: message.endLine,
+      endColumn: message.endColumn,
+    };
+  }
+  return location;
+}
+
+/**
+ * Build a SARIF log: one result per rule violation, rule metadata from the
+ * loaded plugins, and messages without a rule (fatal parse errors) plus
+ * orchestrator failures as tool execution notifications.
+ */
+export function buildSarifLog(
+  results: ESLint.LintResult[],
+  rulesMeta: Record<string, Rule.RuleMetaData>,
+  failures: FailedFile[],
+  cwd: string,
+): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const sarifResults: SarifResult[] = [];
+  const notifications: SarifNotification[] = [];
+
+  const ruleIndex = (ruleId: string): number => {
+    let index = ruleIndexes.get(ruleId);
+    if (index === undefined) {
+      const meta = rulesMeta[ruleId];
+      const rule: SarifRule = { id: ruleId };
+      if (meta?.docs?.description) {
+        rule.shortDescription = { text: meta.docs.description };
+      }
+      if (meta?.docs?.url) {
+        rule.helpUri = meta.docs.url;
+      }
+      if (meta?.type) {
+        rule.properties = { type: meta.type };
+      }
+      index = rules.push(rule) - 1;
+      ruleIndexes.set(ruleId, index);
+    }
+    return index;
+  };
+
+  for (const result of results) {
+    for (const message of result.messages) {
+      const level = message.severity === 2 ? "error" : "warning";
+
+      if (!message.ruleId) {
+        notifications.push({
+          level,
+          message: { text: message.message },
+          locations: [toLocation(result.filePath, cwd, message)],
+        });
+        continue;
+      }
+
+      sarifResults.push({
+        ruleId: message.ruleId,
+        ruleIndex: ruleIndex(message.ruleId),
+        level,
+        message: { text: message.message },
+        locations: [toLocation(result.filePath, cwd, message)],
+      });
+    }
+  }
+
+  for (const failure of failures) {
+    notifications.push({
+      level: "error",
+      message: { text: `${failure.reason}: ${failure.message}` },
+      descriptor: { id: failure.reason },
+      locations: [toLocation(failure.file, cwd)],
+    });
+  }
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "ESLint",
+            version: ESLint.version,
+            informationUri: "https://eslint.org",
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          [SRCROOT]: { uri: pathToFileURL(cwd + path.sep).href },
+        },
+        results: sarifResults,
+        invocations: [
+          {
+            executionSuccessful: failures.length === 0,
+            toolExecutionNotifications: notifications,
+          },
+        ],
+      },
+    ],
+  };
+}
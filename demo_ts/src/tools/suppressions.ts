@@ -0,0 +1,188 @@
+// src/tools/suppressions.ts - Recorded violations that don't fail the build
+
+import fs from "fs";
+import path from "path";
+import { ESLint, Linter } from "eslint";
+import { anchorMessages } from "./anchors.ts";
+import { withMessages } from "./report.ts";
+
+const SUPPRESSIONS_VERSION = 1;
+
+/**
+ * One recorded violation. Identified by rule, file and the normalized text
+ * of the line it is on rather than the line number, so it survives edits
+ * elsewhere in the file; `occurrence` tells apart identical violations on
+ * identical lines.
+ */
+export interface Suppression {
+  file: string; // Relative to the project root, forward slashes
+  rule: string;
+  snippet: string; // Source line, whitespace collapsed
+  occurrence: number;
+  message: string; // For reviewers only, not part of the fingerprint
+}
+
+export interface SuppressionsFile {
+  version: number;
+  suppressions: Suppression[];
+}
+
+export interface SuppressionOutcome {
+  results: ESLint.LintResult[];
+  suppressed: number;
+  stale: Suppression[]; // Entries whose violation is gone
+}
+
+function fingerprint(s: Omit<Suppression, "message">): string {
+  return [s.file, s.rule, s.snippet, s.occurrence].join("\0");
+}
+
+function compare(a: Suppression, b: Suppression): number {
+  for (const key of ["file", "rule", "snippet"] as const) {
+    if (a[key] !== b[key]) {
+      return a[key] < b[key] ? -1 : 1;
+    }
+  }
+  return a.occurrence - b.occurrence;
+}
+
+function relativePath(file: string, cwd: string): string {
+  return path.relative(cwd, file).split(path.sep).join("/");
+}
+
+/**
+ * Suppression entry for every rule message of a result, in message order.
+ * Messages without a rule (parse errors) can't be suppressed.
+ */
+function describeMessages(
+  result: ESLint.LintResult,
+  cwd: string,
+): { message: Linter.LintMessage; suppression: Suppression | null }[] {
+  const file = relativePath(result.filePath, cwd);
+  const anchors = anchorMessages(result);
+
+  return result.messages.map((message, index) => {
+    if (message.ruleId === null) {
+      return { message, suppression: null };
+    }
+    return {
+      message,
+      suppression: {
+        file,
+        rule: message.ruleId,
+        ...anchors[index]!,
+        message: message.message,
+      },
+    };
+  });
+}
+
+/**
+ * Read a suppressions file, or null if there is none yet
+ */
+export function loadSuppressions(filePath: string): SuppressionsFile | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  const data = JSON.parse(
+    fs.readFileSync(filePath, "utf8"),
+  ) as SuppressionsFile;
+  if (data.version !== SUPPRESSIONS_VERSION) {
+    throw new Error(
+      `${filePath}: unsupported suppressions version ${data.version}`,
+    );
+  }
+  return data;
+}
+
+/**
+ * Sorted with one entry per line, so changes to the file read well in diffs
+ */
+export function writeSuppressions(
+  filePath: string,
+  suppressions: Suppression[],
+): void {
+  const entries = [...suppressions]
+    .sort(compare)
+    .map((s) => `    ${JSON.stringify(s)}`);
+  const body = entries.length > 0 ? `[\n${entries.join(",\n")}\n  ]` : "[]";
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    `{\n  "version": ${SUPPRESSIONS_VERSION},\n  "suppressions": ${body}\n}\n`,
+  );
+}
+
+/**
+ * Record the current violations of the linted files. Entries for files
+ * that weren't linted this run are kept as they are.
+ */
+export function recordSuppressions(
+  results: ESLint.LintResult[],
+  existing: SuppressionsFile | null,
+  cwd: string,
+): Suppression[] {
+  const recorded: Suppression[] = [];
+  const linted = new Set<string>();
+
+  for (const result of results) {
+    for (const { suppression } of describeMessages(result, cwd)) {
+      if (suppression) {
+        recorded.push(suppression);
+      }
+    }
+    linted.add(relativePath(result.filePath, cwd));
+  }
+
+  const kept = (existing?.suppressions ?? []).filter(
+    (s) => !linted.has(s.file),
+  );
+  return [...kept, ...recorded];
+}
+
+/**
+ * Move messages that match a recorded suppression to suppressedMessages.
+ * Entries for linted files that matched nothing are reported as stale.
+ */
+export function applySuppressions(
+  results: ESLint.LintResult[],
+  data: SuppressionsFile,
+  cwd: string,
+  source: string,
+): SuppressionOutcome {
+  const remaining = new Map<string, Suppression>(
+    data.suppressions.map((s) => [fingerprint(s), s]),
+  );
+  const linted = new Set<string>();
+  let suppressed = 0;
+
+  const filtered = results.map((result) => {
+    const kept: Linter.LintMessage[] = [];
+    const moved: Linter.SuppressedLintMessage[] = [];
+
+    for (const { message, suppression } of describeMessages(result, cwd)) {
+      const key = suppression ? fingerprint(suppression) : null;
+      if (key !== null && remaining.has(key)) {
+        remaining.delete(key);
+        moved.push({
+          ...message,
+          suppressions: [{ kind: "suppressionsFile", justification: source }],
+        });
+      } else {
+        kept.push(message);
+      }
+    }
+
+    linted.add(relativePath(result.filePath, cwd));
+    if (moved.length === 0) {
+      return result;
+    }
+    suppressed += moved.length;
+    return withMessages(result, kept, [...result.suppressedMessages, ...moved]);
+  });
+
+  const stale = [...remaining.values()]
+    .filter((s) => linted.has(s.file))
+    .sort(compare);
+  return { results: filtered, suppressed, stale };
+}
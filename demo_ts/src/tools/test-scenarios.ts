@@ -121,11 +121,17 @@ export function executeFailure(
         `Parsing error: Unexpected token in ${file}. Expected ';' but found 'const'.`,
       );
 
-    case "rule-crash":
+    case "rule-crash": {
       console.log(`[TEST] 💥 Simulating rule crash on ${file}`);
-      throw new Error(
-        `Rule '@typescript-eslint/no-unsafe-assignment' threw: Cannot read property 'type' of undefined`,
+      // Shaped like ESLint's own: the rule id is set on the error
+      const ruleId = "@typescript-eslint/no-unsafe-assignment";
+      throw Object.assign(
+        new Error(
+          `Cannot read properties of undefined (reading 'type')\nOccurred while linting ${file}\nRule: "${ruleId}"`,
+        ),
+        { ruleId },
       );
+    }
 
     case "slow":
       console.log(`[TEST] 🐢 Simulating slow processing on ${file}`);
@@ -144,21 +150,26 @@ export function executeFailure(
 /**
  * Parse test scenario from command line or env
  */
-export function getTestConfig(): TestConfig {
+export function getTestConfig(
+  args: string[] = process.argv.slice(2),
+): TestConfig {
   // Check command line args
-  const args = process.argv.slice(2);
+  let scenario: TestScenario | undefined;
+  let targetFile: string | undefined;
 
   for (const arg of args) {
     if (arg.startsWith("--test=")) {
-      const scenario = arg.replace("--test=", "") as TestScenario;
-      return { scenario };
+      scenario = arg.replace("--test=", "") as TestScenario;
     }
     if (arg.startsWith("--test-file=")) {
-      const targetFile = arg.replace("--test-file=", "");
-      return { scenario: "oom-single", targetFile };
+      targetFile = arg.replace("--test-file=", "");
     }
   }
 
+  if (scenario || targetFile) {
+    return { scenario: scenario ?? "oom-single", targetFile };
+  }
+
   // Check environment variable
   const envScenario = process.env.TEST_SCENARIO as TestScenario;
   if (envScenario) {
@@ -1,30 +1,77 @@
 // src/tools/types.ts - Shared types for master-worker IPC
 
+import { ChildProcess } from "child_process";
 import { ESLint } from "eslint";
+import { MemoryLimitSource } from "./memory-budget.ts";
+import { Suppression } from "./suppressions.ts";
+import { FixOutcome } from "./fix-writer.ts";
+import { ConversionWarning } from "./config-converter.ts";
+import { GateResult } from "./exit-codes.ts";
+
+export type FailureReason =
+  "oom" | "parse_error" | "rule_crash" | "config_error" | "timeout" | "unknown";
+
+// Where linting a file threw: computing its config, parsing it, in a rule,
+// or somewhere that can't be told (ESLint itself, a processor)
+export type ErrorPhase = "config" | "parse" | "rule" | "internal";
 
 // Master → Worker
 export interface LintTask {
   type: "lint";
   workerId: number;
+  batchId: number;
   configPath: string;
+  tsconfig?: string; // Owning tsconfig when batched by project
+  fix: boolean; // Compute fixes and return them as result.output
   files: string[];
 }
 
+export interface ShutdownTask {
+  type: "shutdown";
+}
+
+export type MasterMessage = LintTask | ShutdownTask;
+
+// Pipe a worker's heartbeat thread writes a line to every second: the fd
+// after stdin, stdout, stderr and IPC
+export const HEARTBEAT_FD = 4;
+
 // Worker → Master
-export interface LintResult {
-  type: "result";
+/**
+ * Results for one file, sent as soon as it is linted so a worker that
+ * dies later in the batch doesn't take them along
+ */
+export interface FileResult {
+  type: "file";
   workerId: number;
-  results: ESLint.LintResult[];
+  batchId: number;
+  file: string; // Absolute, as sent in the task
+  results: ESLint.LintResult[]; // Empty when the config ignores the file
+}
+
+// The whole batch is done; its results have all been sent as FileResults
+export interface BatchComplete {
+  type: "complete";
+  workerId: number;
+  batchId: number;
   peakRSS: number;
   duration: number;
 }
 
+/**
+ * With `file` set, only that file failed and the batch goes on; without
+ * it, the whole batch is lost
+ */
 export interface WorkerError {
   type: "error";
   workerId: number;
-  errorType: "oom" | "parse_error" | "rule_crash" | "unknown";
+  batchId?: number;
+  errorType: Exclude<FailureReason, "timeout">;
   message: string;
-  file?: string;
+  file?: string; // Absolute, as sent in the task
+  ruleId?: string; // The rule that threw
+  phase?: ErrorPhase;
+  stack?: string;
 }
 
 export interface MemorySample {
@@ -35,40 +82,221 @@ export interface MemorySample {
   timestamp: number;
 }
 
-export type WorkerMessage = LintResult | WorkerError | MemorySample;
+export type WorkerMessage =
+  FileResult | BatchComplete | WorkerError | MemorySample;
 
 // Job tracking
+export type BatchStrategy = "naive" | "project";
+
+// off: no fixes; write: apply them; dry-run: compute without writing
+export type FixMode = "off" | "write" | "dry-run";
+
+// Lowest severity whose messages fail the run; none only reports them
+export type FailOn = "error" | "warning" | "none";
+
+export interface OrchestratorConfig {
+  patterns: string[]; // Files or globs to lint
+  ignore: string[]; // Globs to skip
+  configPath: string | null; // Flat or legacy config; null finds one in the project root
+  outputDir: string;
+  maxWorkers: number;
+  maxRetries: number;
+  memoryThresholdPercent: number;
+  containerLimitMB: number | null; // null = detect from cgroup / os
+  defaultWorkerCostMB: number; // Predicted worker cost until one reports a peak
+  initialBatchDivisor: number;
+  batchStrategy: BatchStrategy;
+  workerMaxBatches: number; // Recycle a worker after this many batches
+  workerRecycleRSSMB: number; // Recycle a worker once its RSS crosses this
+  batchTimeoutMs: number; // Wall-clock budget per batch
+  heartbeatTimeoutMs: number; // Max gap between heartbeats while busy
+  stallTimeoutMs: number; // Max gap between IPC messages from a busy worker's main thread
+  killGraceMs: number; // SIGTERM → SIGKILL escalation delay
+  cache: boolean; // Reuse results for files whose inputs didn't change
+  cacheLocation: string; // Cache file, relative to the project root
+  changedSince: string | null; // Only lint files changed since this git ref
+  includeDependents: boolean; // ...plus files that import changed files
+  onlyChangedLines: boolean; // ...and only report messages on changed lines
+  suppressionsFile: string; // Recorded violations, relative to the project root
+  updateSuppressions: boolean; // Re-record the violations of linted files
+  fix: FixMode;
+  fixPatch: string | null; // Write fixes as a unified diff here instead
+  failOn: FailOn;
+  maxWarnings: number | null; // Fail on more warnings than this; null = no limit
+  ruleBudgets: Record<string, number>; // Errors a rule may report without failing
+}
+
 export interface Batch {
   id: number;
-  files: string[];
+  files: string[]; // Not yet linted: shrinks as the worker reports files
   retries: number;
+  tsconfig?: string;
+  parentId?: number; // The batch this one was split from
 }
 
 export interface WorkerState {
   id: number;
   pid: number;
-  batch: Batch;
+  child: ChildProcess;
+  batch: Batch | null; // null while the worker is idle
+  batchesRun: number;
+  retiring: boolean;
+  timeoutReason: string | null; // Set once the watchdog terminates the worker
   startTime: number;
+  batchStartTime: number;
+  batchFiles: number; // Files the current batch was assigned with
+  lastHeartbeat: number; // 0 until the heartbeat thread is up
+  lastMessage: number; // Last IPC message from the worker's main thread
   samples: MemorySample[];
 }
 
 export interface FailedFile {
   file: string;
-  reason: "oom" | "parse_error" | "rule_crash" | "unknown";
+  reason: FailureReason;
   message: string;
+  ruleId?: string;
+  phase?: ErrorPhase;
 }
 
 export interface Summary {
+  batchStrategy: BatchStrategy;
+  peakRSS: number; // Highest peakRSS of any single worker
   totalFiles: number;
   processedFiles: number;
+  cachedFiles: number; // Results reused from the cache (part of processedFiles)
   failedFiles: number;
   totalErrors: number;
   totalWarnings: number;
   workers: {
     id: number;
     files: number;
+    batches: number;
     peakRSS: number;
     duration: number;
   }[];
+  memory: {
+    limitBytes: number;
+    limitSource: MemoryLimitSource;
+    predictedWorkerCost: number; // Per-worker cost learned during the run
+  };
+  suppressions: {
+    file: string;
+    suppressed: number; // Messages matched by a recorded suppression
+    stale: Suppression[]; // Recorded violations that no longer occur
+  } | null; // null when there is no suppressions file
+  fixes: FixOutcome | null; // null unless fixing
   failures: FailedFile[];
+  gate: GateResult; // Exit code and why
+}
+
+/**
+ * Snapshot of a run in progress, for progress displays. Cached files are
+ * not counted.
+ */
+export interface Progress {
+  totalFiles: number; // Files handed to workers
+  lintedFiles: number; // Reported by a worker
+  failedFiles: number;
+  pendingBatches: number;
+  retriesInFlight: number; // Retry batches pending or running
+  startTime: number; // When the first batch started, 0 before
+  workerRSSLimit: number; // RSS at which a worker is recycled
+  workers: {
+    id: number;
+    rss: number; // Latest memory sample, 0 before the first
+    batch: Batch | null;
+  }[];
+}
+
+// Orchestrator events (payload tuples for the typed EventEmitter)
+export interface OrchestratorEvents {
+  "run:start": [
+    {
+      cwd: string;
+      outputDir: string;
+      memoryLimitBytes: number;
+      memoryLimitSource: MemoryLimitSource;
+      memoryThresholdPercent: number;
+    },
+  ];
+  "config:detected": [{ flatConfigPath: string }]; // Used as is, no conversion
+  "config:loaded": [
+    {
+      legacyConfigPath: string;
+      flatConfigPath: string;
+      parser?: string;
+      ruleCount: number;
+      nestedConfigs: string[]; // Per-directory configs, relative to the project root
+      warnings: ConversionWarning[]; // Legacy settings left out of the flat config
+    },
+  ];
+  "files:found": [{ patterns: string[]; files: string[] }];
+  "changes:detected": [
+    {
+      ref: string;
+      base: string; // Merge base that was diffed against
+      changed: string[]; // Changed files matching the patterns
+      dependents: string[]; // Unchanged files that import changed ones
+    },
+  ];
+  "cache:checked": [
+    { cacheFile: string; cached: ESLint.LintResult[]; toLint: string[] },
+  ];
+  "batches:created": [{ strategy: BatchStrategy; batches: Batch[] }];
+  "batch:start": [{ batch: Batch; workerId: number; reused: boolean }];
+  "file:complete": [
+    {
+      batch: Batch;
+      workerId: number;
+      file: string;
+      results: ESLint.LintResult[];
+    },
+  ];
+  "batch:complete": [
+    { batch: Batch; workerId: number; duration: number; peakRSS: number },
+  ];
+  "batch:retry": [
+    { batch: Batch; reason: FailureReason; message: string; children: Batch[] },
+  ];
+  failure: [
+    {
+      batch: Batch;
+      failures: FailedFile[];
+      // Why a batch a worker didn't finish wasn't split and retried
+      notRetried?: "max-retries" | "single-file" | "not-retryable";
+    },
+  ];
+  "worker:spawn": [{ workerId: number; pid: number }];
+  "worker:message": [
+    { workerId: number; batch: Batch | null; message: WorkerMessage },
+  ];
+  "worker:error": [
+    {
+      workerId: number;
+      batch: Batch | null;
+      errorType: FailureReason;
+      message: string;
+      file?: string; // Set when only this file failed
+      ruleId?: string;
+      phase?: ErrorPhase;
+      stack?: string;
+    },
+  ];
+  "worker:output": [
+    { workerId: number; stream: "stdout" | "stderr"; line: string },
+  ];
+  "worker:timeout": [{ workerId: number; reason: string }];
+  "worker:sigkill": [{ workerId: number }];
+  "worker:retire": [{ workerId: number; batchesRun: number }];
+  "worker:exit": [
+    {
+      workerId: number;
+      code: number | null;
+      signal: NodeJS.Signals | null;
+      batch: Batch | null; // Batch that was in flight, if any
+      failure: FailureReason | null; // Why that batch failed
+    },
+  ];
+  "suppressions:updated": [{ file: string; count: number }];
+  "run:complete": [{ summary: Summary }];
 }
@@ -1,25 +1,61 @@
 // src/tools/worker.ts - Isolated ESLint worker process
 
+import { Worker } from "worker_threads";
 import { ESLint } from "eslint";
-import { LintTask, LintResult, WorkerError, MemorySample } from "./types.ts";
+import {
+  HEARTBEAT_FD,
+  LintTask,
+  FileResult,
+  BatchComplete,
+  WorkerError,
+  ErrorPhase,
+  MemorySample,
+  MasterMessage,
+} from "./types.ts";
 import {
   getTestConfig,
   shouldSimulateFailure,
   executeFailure,
 } from "./test-scenarios.ts";
 
+const HEARTBEAT_MS = 1000;
+
 let workerId = -1;
 let peakRSS = 0;
+let memInterval: ReturnType<typeof setInterval> | null = null;
+
+// Kept warm across batches so the TypeScript program is only built once,
+// one instance per flat config + owning tsconfig + fix mode
+const eslintInstances = new Map<string, ESLint>();
+
+// Tasks run one at a time, in the order the master sent them
+let queue: Promise<void> = Promise.resolve();
 
 // Load test config once
 const testConfig = getTestConfig();
 
-function sendMessage(msg: LintResult | WorkerError | MemorySample) {
+type OutgoingMessage = FileResult | BatchComplete | WorkerError | MemorySample;
+
+function sendMessage(msg: OutgoingMessage) {
   if (process.send) {
     process.send(msg);
   }
 }
 
+/**
+ * Resolves once the message is handed to the IPC channel, so it survives
+ * the process dying (or exiting) right after
+ */
+function sendAndFlush(msg: OutgoingMessage): Promise<void> {
+  return new Promise((resolve) => {
+    if (!process.send) {
+      resolve();
+      return;
+    }
+    process.send(msg, undefined, undefined, () => resolve());
+  });
+}
+
 function sampleMemory(): number {
   const mem = process.memoryUsage();
   if (mem.rss > peakRSS) {
@@ -37,118 +73,244 @@ function sampleMemory(): number {
   return mem.rss;
 }
 
-async function runLint(task: LintTask): Promise<void> {
-  workerId = task.workerId;
-  const startTime = Date.now();
+/**
+ * Beat from a thread of its own: type-aware linting blocks the main event
+ * loop for seconds at a time, which must not look like a hang. Stops
+ * quietly when there is no heartbeat pipe (worker run by hand).
+ */
+function startHeartbeat(): void {
+  const thread = new Worker(
+    `
+    const fs = require("fs");
+    const { workerData } = require("worker_threads");
+    const timer = setInterval(() => {
+      try {
+        fs.writeSync(workerData.fd, "\\n");
+      } catch {
+        clearInterval(timer);
+      }
+    }, workerData.intervalMs);
+    `,
+    { eval: true, workerData: { fd: HEARTBEAT_FD, intervalMs: HEARTBEAT_MS } },
+  );
+  thread.unref();
+}
 
-  console.log(
-    `[Worker ${workerId}] Starting lint of ${task.files.length} files`,
+function stopSampling(): void {
+  if (memInterval !== null) {
+    clearInterval(memInterval);
+    memInterval = null;
+  }
+}
+
+function getESLint(
+  configPath: string,
+  tsconfig: string | undefined,
+  fix: boolean,
+): ESLint {
+  const key = `${configPath}\0${tsconfig ?? ""}\0${fix}`;
+  let eslint = eslintInstances.get(key);
+  if (!eslint) {
+    eslint = new ESLint({
+      cwd: process.cwd(),
+      overrideConfigFile: configPath,
+      // Point type-aware rules at the batch's own project only
+      overrideConfig: tsconfig
+        ? { languageOptions: { parserOptions: { project: tsconfig } } }
+        : undefined,
+      cache: false,
+      // Globbed files the config ignores (ignorePatterns) are skipped quietly
+      warnIgnored: false,
+      // Fixed source comes back as result.output; the master writes it
+      fix,
+    });
+    eslintInstances.set(key, eslint);
+  }
+  return eslint;
+}
+
+/**
+ * Whether a parser threw this. ESLint turns parser errors into fatal
+ * messages itself, so this only catches ones that escape it: a
+ * SyntaxError, typescript-estree's TSError, or ESLint's own wording.
+ */
+function isParserError(err: Error): boolean {
+  return (
+    err instanceof SyntaxError ||
+    err.name === "TSError" ||
+    err.message.startsWith("Parsing error:")
   );
+}
 
-  if (testConfig.scenario !== "none") {
-    console.log(`[Worker ${workerId}] 🧪 Test mode: ${testConfig.scenario}`);
+/**
+ * Attribute an error ESLint threw for one file. ESLint sets `ruleId` on
+ * errors thrown by a rule's listeners; errors from a rule's create() only
+ * name it in their (fixed) message. What is neither a rule's nor a
+ * parser's is "internal".
+ */
+function describeError(
+  error: unknown,
+  stage: "config" | "lint",
+): { phase: ErrorPhase; ruleId?: string; message: string; stack?: string } {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const ruleId =
+    (err as Error & { ruleId?: string }).ruleId ??
+    /^Error while loading rule '([^']+)'/.exec(err.message)?.[1];
+  let phase: ErrorPhase = "internal";
+  if (stage === "config") {
+    phase = "config";
+  } else if (ruleId !== undefined) {
+    phase = "rule";
+  } else if (isParserError(err)) {
+    phase = "parse";
   }
+  return { phase, ruleId, message: err.message, stack: err.stack };
+}
 
-  // Start memory sampling
-  const memInterval = setInterval(() => sampleMemory(), 200);
+const ERROR_TYPES: Record<ErrorPhase, WorkerError["errorType"]> = {
+  config: "config_error",
+  parse: "parse_error",
+  rule: "rule_crash",
+  internal: "unknown",
+};
 
+/**
+ * Lint one file. If ESLint throws, the file is reported on its own and
+ * null returned, so the rest of the batch still gets linted.
+ */
+async function lintFile(
+  linter: ESLint,
+  file: string,
+  task: LintTask,
+): Promise<ESLint.LintResult[] | null> {
+  let stage: "config" | "lint" = "config";
   try {
-    // ============ TEST HOOK: Pre-lint failures ============
-    // Check each file for simulated failures BEFORE linting
-    for (const file of task.files) {
-      const { shouldFail, failureType } = shouldSimulateFailure(
-        file,
-        testConfig,
-      );
-      if (shouldFail && failureType) {
-        clearInterval(memInterval);
-        executeFailure(failureType, file);
-        // If executeFailure didn't exit/throw (e.g., slow), continue
+    await linter.calculateConfigForFile(file);
+    stage = "lint";
+
+    // ============ TEST HOOK: Per-file failures ============
+    const { shouldFail, failureType } = shouldSimulateFailure(file, testConfig);
+    if (shouldFail && failureType) {
+      if (failureType === "oom") {
+        stopSampling();
       }
+      executeFailure(failureType, file);
+      // If executeFailure didn't exit/throw (e.g., slow), continue
     }
     // ======================================================
 
-    // Initialize ESLint with the pre-generated flat config
-    const eslint = new ESLint({
-      cwd: process.cwd(),
-      overrideConfigFile: task.configPath,
-      cache: false,
+    return await linter.lintFiles([file]);
+  } catch (error: unknown) {
+    const { phase, ruleId, message, stack } = describeError(error, stage);
+    console.error(
+      `${phase} error in ${file}${ruleId ? ` (${ruleId})` : ""}: ${message.split("\n")[0]}`,
+    );
+    await sendAndFlush({
+      type: "error",
+      workerId,
+      batchId: task.batchId,
+      errorType: ERROR_TYPES[phase],
+      message,
+      file,
+      ruleId,
+      phase,
+      stack,
     });
+    return null;
+  }
+}
 
-    sampleMemory();
+async function runLint(task: LintTask): Promise<void> {
+  workerId = task.workerId;
+  const startTime = Date.now();
 
-    // Lint the assigned files
-    const results = await eslint.lintFiles(task.files);
+  console.log(
+    `Starting lint of ${task.files.length} files (batch ${task.batchId})`,
+  );
 
-    sampleMemory();
-    clearInterval(memInterval);
+  if (testConfig.scenario !== "none") {
+    console.log(`🧪 Test mode: ${testConfig.scenario}`);
+  }
 
-    const duration = Date.now() - startTime;
+  // Start memory sampling (runs for the lifetime of the worker)
+  if (memInterval === null) {
+    memInterval = setInterval(() => sampleMemory(), 200);
+  }
 
-    console.log(
-      `[Worker ${workerId}] Completed in ${duration}ms, peak RSS: ${(peakRSS / 1024 / 1024).toFixed(1)}MB`,
-    );
+  // Reuse the ESLint instance built for the pre-generated flat config
+  const linter = getESLint(task.configPath, task.tsconfig, task.fix);
 
-    // Send results back to master
-    sendMessage({
-      type: "result",
-      workerId,
-      results,
-      peakRSS,
-      duration,
-    });
-  } catch (error: unknown) {
-    clearInterval(memInterval);
+  sampleMemory();
 
-    const errMsg = error instanceof Error ? error.message : String(error);
-    console.error(`[Worker ${workerId}] Error:`, errMsg);
+  // File by file, so an error is pinned to the file that caused it, and
+  // each file's results reach the master before the next one is linted
+  let failed = 0;
+  for (const file of task.files) {
+    const results = await lintFile(linter, file, task);
+    if (results) {
+      await sendAndFlush({
+        type: "file",
+        workerId,
+        batchId: task.batchId,
+        file,
+        results,
+      });
+    } else {
+      failed++;
+    }
+  }
 
-    // Classify the error
-    let errorType: "parse_error" | "rule_crash" | "unknown" = "unknown";
-    let file: string | undefined;
+  sampleMemory();
 
-    if (errMsg.includes("Parsing error") || errMsg.includes("parserServices")) {
-      errorType = "parse_error";
-      // Try to extract file from error
-      const match = errMsg.match(/in\s+([^\s:]+)/);
-      if (match) file = match[1];
-    } else if (errMsg.includes("Rule ") || errMsg.includes("rule '")) {
-      errorType = "rule_crash";
-    }
+  const duration = Date.now() - startTime;
 
-    sendMessage({
-      type: "error",
-      workerId,
-      errorType,
-      message: errMsg,
-      file,
-    });
-  }
+  console.log(
+    `Completed in ${duration}ms${failed > 0 ? ` (${failed} failed)` : ""}, peak RSS: ${(peakRSS / 1024 / 1024).toFixed(1)}MB`,
+  );
+
+  sendMessage({
+    type: "complete",
+    workerId,
+    batchId: task.batchId,
+    peakRSS,
+    duration,
+  });
 
-  // Exit cleanly
-  process.exit(0);
+  // Stay alive and wait for the next batch
 }
 
-// Listen for task from master
-process.on("message", (msg: LintTask) => {
+// Listen for tasks from master
+process.on("message", (msg: MasterMessage) => {
   if (msg.type === "lint") {
-    runLint(msg).catch((err) => {
-      console.error(`[Worker ${workerId}] Fatal:`, err);
-      process.exit(1);
+    queue = queue
+      .then(() => runLint(msg))
+      .catch((err) => {
+        console.error("Fatal:", err);
+        process.exit(1);
+      });
+  } else if (msg.type === "shutdown") {
+    queue = queue.then(() => {
+      console.log("Shutting down");
+      stopSampling();
+      process.exit(0);
     });
   }
 });
 
 // Handle uncaught errors
 process.on("uncaughtException", (err) => {
-  console.error(`[Worker ${workerId}] Uncaught:`, err.message);
+  console.error("Uncaught:", err.message);
   sendMessage({
     type: "error",
     workerId,
     errorType: "unknown",
     message: err.message,
+    stack: err.stack,
   });
   process.exit(1);
 });
 
-console.log(`[Worker] Process started, PID: ${process.pid}`);
+// stdout/stderr are piped to the master, which prefixes each line with the
+// worker id
+console.log(`Process started, PID: ${process.pid}`);
+startHeartbeat();
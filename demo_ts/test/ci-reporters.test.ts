@@ -0,0 +1,209 @@
+// test/ci-reporters.test.ts - SARIF, JUnit and GitLab Code Quality output
+
+import assert from "node:assert/strict";
+import path from "path";
+import { describe, it } from "node:test";
+import { ESLint, Linter } from "eslint";
+import { toGitLabCodeQuality, toJUnitXml } from "../src/tools/ci-reporters.ts";
+import { buildSarifLog } from "../src/tools/sarif.ts";
+import { FailedFile } from "../src/tools/types.ts";
+
+const cwd = path.resolve("/project");
+
+function message(
+  ruleId: string | null,
+  line: number,
+  severity: 1 | 2 = 2,
+): Linter.LintMessage {
+  return {
+    ruleId,
+    line,
+    column: 3,
+    severity,
+    message:
+      ruleId === null ? "Parsing error: Unexpected token" : `${ruleId} <&>`,
+    ...(ruleId === null ? { fatal: true } : {}),
+  };
+}
+
+function result(
+  file: string,
+  source: string,
+  messages: Linter.LintMessage[],
+): ESLint.LintResult {
+  return {
+    filePath: path.join(cwd, file),
+    messages,
+    suppressedMessages: [],
+    errorCount: messages.filter((m) => m.severity === 2).length,
+    fatalErrorCount: messages.filter((m) => m.fatal === true).length,
+    warningCount: messages.filter((m) => m.severity === 1).length,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+    usedDeprecatedRules: [],
+    source,
+  };
+}
+
+const failure: FailedFile = {
+  file: path.join(cwd, "src/big.ts"),
+  reason: "oom",
+  message: "Worker ran out of memory",
+};
+
+interface Issue {
+  check_name: string;
+  fingerprint: string;
+  severity: string;
+  location: { path: string; lines: { begin: number } };
+}
+
+function gitlab(results: ESLint.LintResult[], failures: FailedFile[] = []) {
+  return JSON.parse(toGitLabCodeQuality(results, failures, cwd)) as Issue[];
+}
+
+describe("toGitLabCodeQuality", () => {
+  it("maps severities and reports failed files as blockers", () => {
+    const issues = gitlab(
+      [
+        result("src/a.ts", "var a = 1;\na == b;\n", [
+          message("no-var", 1),
+          message("eqeqeq", 2, 1),
+        ]),
+      ],
+      [failure],
+    );
+    assert.deepEqual(
+      issues.map((i) => [i.check_name, i.severity, i.location]),
+      [
+        ["no-var", "major", { path: "src/a.ts", lines: { begin: 1 } }],
+        ["eqeqeq", "minor", { path: "src/a.ts", lines: { begin: 2 } }],
+        ["eslint-oom", "blocker", { path: "src/big.ts", lines: { begin: 1 } }],
+      ],
+    );
+  });
+
+  it("keeps fingerprints when lines above an issue change", () => {
+    const before = gitlab([
+      result("src/a.ts", "var a = 1;\n", [message("no-var", 1)]),
+    ]);
+    const after = gitlab([
+      result("src/a.ts", "// added\n\n  var a   = 1;\n", [
+        message("no-var", 3),
+      ]),
+    ]);
+    assert.equal(after[0]!.location.lines.begin, 3);
+    assert.equal(after[0]!.fingerprint, before[0]!.fingerprint);
+  });
+
+  it("gives identical issues on identical lines distinct fingerprints", () => {
+    const issues = gitlab([
+      result("src/a.ts", "var a = 1;\nvar a = 1;\n", [
+        message("no-var", 1),
+        message("no-var", 2),
+      ]),
+    ]);
+    assert.notEqual(issues[0]!.fingerprint, issues[1]!.fingerprint);
+  });
+});
+
+describe("toJUnitXml", () => {
+  it("fails a testcase per error and errors a testcase per failed file", () => {
+    const xml = toJUnitXml(
+      [
+        result("src/a.ts", "var a = 1;\na == b;\n", [
+          message("no-var", 1),
+          message("eqeqeq", 2, 1),
+        ]),
+        result("src/clean.ts", "", []),
+      ],
+      [failure],
+      cwd,
+    );
+    assert.match(
+      xml,
+      /^<testsuites name="eslint" tests="3" failures="1" errors="1">$/m,
+    );
+    assert.match(
+      xml,
+      /<testsuite name="src\/a.ts" tests="1" failures="1" errors="0">/,
+    );
+    assert.match(
+      xml,
+      /<testcase classname="src\/a.ts" name="no-var \(1:3\)">\n {6}<failure type="no-var" message="no-var &lt;&amp;&gt;">/,
+    );
+    assert.match(xml, /<testcase classname="src\/clean.ts" name="eslint" \/>/);
+    assert.match(
+      xml,
+      /<error type="oom" message="Worker ran out of memory" \/>/,
+    );
+    // Warnings are not testcases
+    assert.doesNotMatch(xml, /eqeqeq/);
+  });
+});
+
+describe("buildSarifLog", () => {
+  it("reports rule violations as results and the rest as notifications", () => {
+    const log = buildSarifLog(
+      [
+        result("src/a.ts", "var a = 1;\n", [
+          message("no-var", 1),
+          message("no-var", 1),
+          message(null, 2),
+        ]),
+      ],
+      {
+        "no-var": {
+          type: "suggestion",
+          docs: {
+            description: "Require let or const instead of var",
+            url: "https://eslint.org/docs/latest/rules/no-var",
+          },
+        },
+      },
+      [failure],
+      cwd,
+    );
+    const [run] = log.runs;
+
+    assert.deepEqual(run!.tool.driver.rules, [
+      {
+        id: "no-var",
+        shortDescription: { text: "Require let or const instead of var" },
+        helpUri: "https://eslint.org/docs/latest/rules/no-var",
+        properties: { type: "suggestion" },
+      },
+    ]);
+    assert.deepEqual(
+      run!.results.map((r) => [r.ruleId, r.ruleIndex, r.level]),
+      [
+        ["no-var", 0, "error"],
+        ["no-var", 0, "error"],
+      ],
+    );
+    assert.deepEqual(run!.results[0]!.locations[0], {
+      physicalLocation: {
+        artifactLocation: { uri: "src/a.ts", uriBaseId: "%SRCROOT%" },
+        region: {
+          startLine: 1,
+          startColumn: 3,
+          endLine: undefined,
+          endColumn: undefined,
+        },
+      },
+    });
+
+    const [invocation] = run!.invocations;
+    assert.equal(invocation!.executionSuccessful, false);
+    assert.deepEqual(
+      invocation!.toolExecutionNotifications.map((n) => [
+        n.message.text,
+        n.descriptor?.id,
+      ]),
+      [
+        ["Parsing error: Unexpected token", undefined],
+        ["oom: Worker ran out of memory", "oom"],
+      ],
+    );
+  });
+});
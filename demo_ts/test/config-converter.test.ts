@@ -0,0 +1,149 @@
+// test/config-converter.test.ts - Generated TypeScript configs type-check
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, describe, it } from "node:test";
+import { ESLint } from "eslint";
+import {
+  ConfigConverter,
+  MODULE_DECLARATIONS_FILE,
+} from "../src/tools/config-converter.ts";
+
+const demoRoot = path.resolve(import.meta.dirname, "..");
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "config-converter-"));
+
+function writePackage(root: string, name: string, source: string): void {
+  const dir = path.join(root, "node_modules", name);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, "package.json"),
+    JSON.stringify({ name, version: "1.0.0", main: "index.js" }),
+  );
+  fs.writeFileSync(path.join(dir, "index.js"), source);
+}
+
+// A project whose plugin and parser ship no type declarations
+function untypedProject(): string {
+  const root = path.join(tmp, "untyped");
+  writePackage(
+    root,
+    "eslint-plugin-untyped",
+    `module.exports = {
+  rules: { "no-foo": { create: () => ({}) } },
+  configs: { recommended: { rules: { "untyped/no-foo": "error" } } },
+};
+`,
+  );
+  writePackage(
+    root,
+    "untyped-parser",
+    "module.exports = { parseForESLint() {} };\n",
+  );
+  fs.symlinkSync(
+    path.join(demoRoot, "node_modules", "eslint"),
+    path.join(root, "node_modules", "eslint"),
+  );
+  return root;
+}
+
+after(() => {
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+describe("ConfigConverter TypeScript output", () => {
+  it("type-checks the demo's config written outside the project", async () => {
+    const legacy = ConfigConverter.loadLegacyConfig(
+      path.join(demoRoot, ".eslintrc.json"),
+    );
+    const { source, declarations } = ConfigConverter.convert(legacy, {
+      cwd: demoRoot,
+      tsconfigRootDir: demoRoot,
+      format: "ts",
+    });
+    const configPath = path.join(tmp, "demo", "eslint.config.ts");
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    ConfigConverter.writeFlatConfig(source, configPath, declarations);
+
+    assert.deepEqual(await ConfigConverter.typeCheck(configPath, demoRoot), []);
+  });
+
+  it("declares untyped plugins and parsers instead of suppressing errors", async () => {
+    const root = untypedProject();
+    const { source, declarations } = ConfigConverter.convert(
+      {
+        parser: "untyped-parser",
+        plugins: ["untyped"],
+        extends: ["plugin:untyped/recommended"],
+        rules: { "untyped/no-foo": "warn" },
+      },
+      { cwd: root, format: "ts" },
+    );
+    assert.doesNotMatch(source, /@ts-(expect-error|ignore)/);
+    assert.match(
+      source,
+      new RegExp(`reference path="./${MODULE_DECLARATIONS_FILE}"`),
+    );
+    assert.match(declarations ?? "", /declare module "eslint-plugin-untyped"/);
+    assert.match(declarations ?? "", /declare module "untyped-parser"/);
+
+    const configPath = path.join(root, "eslint.config.ts");
+    ConfigConverter.writeFlatConfig(source, configPath, declarations);
+    assert.deepEqual(await ConfigConverter.typeCheck(configPath), []);
+  });
+
+  it("reports core rule options ESLint's types reject", async () => {
+    const { source } = ConfigConverter.convert(
+      { rules: { "no-console": ["error", { allow: "log" }] } },
+      { cwd: demoRoot, format: "ts" },
+    );
+    const configPath = path.join(tmp, "invalid", "eslint.config.ts");
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    ConfigConverter.writeFlatConfig(source, configPath);
+
+    const diagnostics = await ConfigConverter.typeCheck(configPath, demoRoot);
+    assert.equal(diagnostics.length, 1);
+    assert.match(diagnostics[0]!, /TS2322: .*keyof Console/);
+  });
+});
+
+interface ResolvedConfig {
+  rules: Record<string, [number, ...unknown[]]>;
+  languageOptions: { parserOptions?: { project?: string } };
+}
+
+describe("ConfigConverter with a TypeScript parser at the root", () => {
+  it("keeps presets and rules on JavaScript files, the parser on TypeScript", async () => {
+    const root = path.join(tmp, "mixed");
+    fs.mkdirSync(root, { recursive: true });
+    const { source } = ConfigConverter.convert(
+      {
+        parser: "@typescript-eslint/parser",
+        parserOptions: { project: "./tsconfig.json" },
+        extends: ["eslint:recommended"],
+        rules: { "no-console": "error" },
+      },
+      { cwd: demoRoot, tsconfigRootDir: root, absoluteImports: true },
+    );
+    // No object that only lists files
+    assert.doesNotMatch(source, /\{\s*files: \[[^\]]*\],?\s*\}/);
+    const configPath = path.join(root, "eslint.config.mjs");
+    ConfigConverter.writeFlatConfig(source, configPath);
+
+    const eslint = new ESLint({ cwd: root, overrideConfigFile: configPath });
+    const resolve = async (file: string) =>
+      (await eslint.calculateConfigForFile(
+        path.join(root, file),
+      )) as ResolvedConfig;
+    const js = await resolve("a.js");
+    const ts = await resolve("b.ts");
+
+    for (const config of [js, ts]) {
+      assert.equal(config.rules["no-console"]?.[0], 2);
+      assert.equal(config.rules["no-undef"]?.[0], 2); // eslint:recommended
+    }
+    assert.equal(js.languageOptions.parserOptions?.project, undefined);
+    assert.equal(ts.languageOptions.parserOptions?.project, "./tsconfig.json");
+  });
+});
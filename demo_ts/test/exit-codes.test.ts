@@ -0,0 +1,149 @@
+// test/exit-codes.test.ts - Exit code and reasons of the CI gate
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ESLint, Linter } from "eslint";
+import {
+  EXIT_CODES,
+  evaluateGate,
+  GatePolicy,
+} from "../src/tools/exit-codes.ts";
+import { FailedFile, FailOn, FailureReason } from "../src/tools/types.ts";
+
+function message(ruleId: string, severity: 1 | 2): Linter.LintMessage {
+  return { ruleId, severity, line: 1, column: 1, message: ruleId };
+}
+
+// One file with the given number of rule errors and warnings
+function results(
+  errors: number,
+  warnings: number,
+  rule = "no-var",
+): ESLint.LintResult[] {
+  const messages = [
+    ...Array.from({ length: errors }, () => message(rule, 2)),
+    ...Array.from({ length: warnings }, () => message("eqeqeq", 1)),
+  ];
+  return [
+    {
+      filePath: "/project/a.ts",
+      messages,
+      suppressedMessages: [],
+      errorCount: errors,
+      fatalErrorCount: 0,
+      warningCount: warnings,
+      fixableErrorCount: 0,
+      fixableWarningCount: 0,
+      usedDeprecatedRules: [],
+    },
+  ];
+}
+
+function failure(reason: FailureReason): FailedFile {
+  return { file: `/project/${reason}.ts`, reason, message: reason };
+}
+
+function policy(overrides: Partial<GatePolicy> = {}): GatePolicy {
+  return { failOn: "error", maxWarnings: null, ruleBudgets: {}, ...overrides };
+}
+
+describe("evaluateGate exit codes", () => {
+  it("passes a clean run", () => {
+    const gate = evaluateGate(results(0, 0), [], policy());
+    assert.equal(gate.exitCode, EXIT_CODES.ok);
+    assert.equal(gate.passed, true);
+    assert.deepEqual(gate.reasons, []);
+  });
+
+  it("fails with 1 on lint errors", () => {
+    const gate = evaluateGate(results(2, 0), [], policy());
+    assert.equal(gate.exitCode, EXIT_CODES.lint);
+    assert.deepEqual(gate.reasons, ["2 errors"]);
+  });
+
+  it("fails with 1 on parse errors, even with --fail-on none", () => {
+    const gate = evaluateGate(
+      results(0, 0),
+      [failure("parse_error")],
+      policy({ failOn: "none" }),
+    );
+    assert.equal(gate.exitCode, EXIT_CODES.lint);
+    assert.deepEqual(gate.reasons, ["1 files could not be parsed"]);
+  });
+
+  for (const reason of ["oom", "rule_crash", "timeout", "unknown"] as const) {
+    it(`fails with 2 on a ${reason} failure over lint errors`, () => {
+      const gate = evaluateGate(results(1, 0), [failure(reason)], policy());
+      assert.equal(gate.exitCode, EXIT_CODES.infrastructure);
+      assert.deepEqual(gate.reasons, [
+        "1 files could not be linted",
+        "1 errors",
+      ]);
+    });
+  }
+
+  it("fails with 3 on config errors over every other failure", () => {
+    const gate = evaluateGate(
+      results(1, 0),
+      [failure("config_error"), failure("oom"), failure("parse_error")],
+      policy(),
+    );
+    assert.equal(gate.exitCode, EXIT_CODES.config);
+    assert.deepEqual(gate.reasons, [
+      "1 files have an invalid config",
+      "1 files could not be linted",
+      "1 files could not be parsed",
+      "1 errors",
+    ]);
+  });
+});
+
+describe("evaluateGate --fail-on and --max-warnings", () => {
+  // [failOn, maxWarnings, errors, warnings, expected exit code]
+  const cases: [FailOn, number | null, number, number, number][] = [
+    ["error", null, 0, 5, EXIT_CODES.ok],
+    ["error", null, 1, 0, EXIT_CODES.lint],
+    ["error", 5, 0, 5, EXIT_CODES.ok],
+    ["error", 5, 0, 6, EXIT_CODES.lint],
+    ["warning", null, 0, 0, EXIT_CODES.ok],
+    ["warning", null, 0, 1, EXIT_CODES.lint],
+    ["warning", null, 1, 0, EXIT_CODES.lint],
+    ["warning", 5, 0, 1, EXIT_CODES.lint],
+    ["none", null, 3, 3, EXIT_CODES.ok],
+    ["none", 5, 3, 5, EXIT_CODES.ok],
+    ["none", 5, 3, 6, EXIT_CODES.lint],
+    ["none", 0, 0, 1, EXIT_CODES.lint],
+  ];
+
+  for (const [failOn, maxWarnings, errors, warnings, expected] of cases) {
+    it(`--fail-on ${failOn}, --max-warnings ${maxWarnings ?? "unset"}: ${errors} errors, ${warnings} warnings → ${expected}`, () => {
+      const gate = evaluateGate(
+        results(errors, warnings),
+        [],
+        policy({ failOn, maxWarnings }),
+      );
+      assert.equal(gate.exitCode, expected);
+      assert.equal(gate.reasons.length > 0, expected !== EXIT_CODES.ok);
+      assert.equal(gate.errors, errors);
+      assert.equal(gate.warnings, warnings);
+    });
+  }
+
+  it("counts rule budget errors only against the budget", () => {
+    const within = evaluateGate(
+      results(3, 0, "no-explicit-any"),
+      [],
+      policy({ ruleBudgets: { "no-explicit-any": 3 } }),
+    );
+    assert.equal(within.exitCode, EXIT_CODES.ok);
+    assert.equal(within.errors, 0);
+
+    const over = evaluateGate(
+      results(4, 0, "no-explicit-any"),
+      [],
+      policy({ ruleBudgets: { "no-explicit-any": 3 } }),
+    );
+    assert.equal(over.exitCode, EXIT_CODES.lint);
+    assert.deepEqual(over.reasons, ["no-explicit-any: 4 errors (budget 3)"]);
+  });
+});
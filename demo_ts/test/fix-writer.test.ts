@@ -0,0 +1,148 @@
+// test/fix-writer.test.ts - Fix write-back, conflicts and patch output
+
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ESLint } from "eslint";
+import { createUnifiedDiff } from "../src/tools/diff.ts";
+import { FixWriter } from "../src/tools/fix-writer.ts";
+
+let root = "";
+
+function fixed(file: string, output: string): ESLint.LintResult {
+  return {
+    filePath: path.join(root, file),
+    messages: [],
+    suppressedMessages: [],
+    errorCount: 0,
+    fatalErrorCount: 0,
+    warningCount: 0,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+    usedDeprecatedRules: [],
+    output,
+  };
+}
+
+function write(file: string, content: string): string {
+  const absolute = path.join(root, file);
+  fs.writeFileSync(absolute, content);
+  return absolute;
+}
+
+// Whether `git apply --check` accepts the patch against the files in root
+function applies(patch: string): boolean {
+  const patchFile = path.join(root, "check.patch");
+  fs.writeFileSync(patchFile, patch);
+  try {
+    execFileSync("git", ["apply", "--check", patchFile], {
+      cwd: root,
+      stdio: "ignore",
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("FixWriter", () => {
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "fix-writer-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("leaves files changed since the snapshot untouched", () => {
+    const a = write("a.js", "var a = 1;\n");
+    const b = write("b.js", "var b = 1;\n");
+    const writer = new FixWriter("write", null, root);
+    writer.snapshot([a, b]);
+    write("b.js", "var b = 2;\n");
+
+    const outcome = writer.apply([
+      fixed("a.js", "let a = 1;\n"),
+      fixed("b.js", "let b = 1;\n"),
+    ]);
+    assert.deepEqual(outcome.fixedFiles, [a]);
+    assert.deepEqual(outcome.conflicts, [b]);
+    assert.equal(fs.readFileSync(a, "utf8"), "let a = 1;\n");
+    assert.equal(fs.readFileSync(b, "utf8"), "var b = 2;\n");
+  });
+
+  it("replaces the file in one rename, keeping its mode and symlinks", () => {
+    const target = write("a.js", "var a = 1;\n");
+    fs.chmodSync(target, 0o666); // Wider than the umask allows new files
+    const link = path.join(root, "link.js");
+    fs.symlinkSync(target, link);
+    const writer = new FixWriter("write", null, root);
+    writer.snapshot([link]);
+
+    writer.apply([fixed("link.js", "let a = 1;\n")]);
+    assert.ok(fs.lstatSync(link).isSymbolicLink());
+    assert.equal(fs.readFileSync(target, "utf8"), "let a = 1;\n");
+    assert.equal(fs.statSync(target).mode & 0o777, 0o666);
+    // No temp file left behind
+    assert.deepEqual(fs.readdirSync(root).sort(), ["a.js", "link.js"]);
+  });
+
+  it("writes a patch git apply accepts instead of touching the files", () => {
+    const source = Array.from({ length: 20 }, (_, i) => `var v${i} = ${i};`);
+    const a = write("a.js", source.join("\n") + "\n");
+    const b = write("b.js", "var b = 1;");
+    const writer = new FixWriter("write", "fix.patch", root);
+    writer.snapshot([a, b]);
+
+    const output = source.map((line, i) =>
+      i === 2 || i === 15 ? line.replace("var", "let") : line,
+    );
+    const outcome = writer.apply([
+      fixed("a.js", output.join("\n") + "\n"),
+      fixed("b.js", "let b = 1;\n"),
+    ]);
+    assert.equal(outcome.patchFile, path.join(root, "fix.patch"));
+    assert.equal(fs.readFileSync(b, "utf8"), "var b = 1;");
+
+    const patch = fs.readFileSync(outcome.patchFile, "utf8");
+    assert.equal((patch.match(/^@@ /gm) ?? []).length, 3); // Two hunks in a.js
+    assert.match(patch, /\\ No newline at end of file/);
+    assert.ok(applies(patch));
+  });
+});
+
+describe("createUnifiedDiff", () => {
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "diff-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("is empty for equal contents", () => {
+    assert.equal(createUnifiedDiff("a.js", "x\n", "x\n"), "");
+  });
+
+  it("adds lines to an empty file", () => {
+    write("a.js", "");
+    assert.ok(applies(createUnifiedDiff("a.js", "", "one\ntwo\n")));
+  });
+
+  it("replaces a large changed region as a whole", () => {
+    const lines = (prefix: string) =>
+      Array.from({ length: 2500 }, (_, i) => `${prefix}${i}`).join("\n");
+    const before = `head\n${lines("a")}\nmid\n${lines("a")}\ntail\n`;
+    write("big.js", before);
+
+    const after = `head\n${lines("b")}\nmid\n${lines("b")}\ntail\n`;
+    const patch = createUnifiedDiff("big.js", before, after);
+    assert.match(patch, /^@@ -1,5003 \+1,5003 @@$/m);
+    // Too large for an LCS table, so the common middle line is replaced too
+    assert.match(patch, /^-mid$/m);
+    assert.ok(applies(patch));
+  });
+});
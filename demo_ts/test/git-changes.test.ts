@@ -0,0 +1,74 @@
+// test/git-changes.test.ts - Changed lines from git diff output
+
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { getGitChanges } from "../src/tools/git-changes.ts";
+
+let repo = "";
+
+function git(...args: string[]): void {
+  execFileSync(
+    "git",
+    ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args],
+    { cwd: repo, stdio: "ignore" },
+  );
+}
+
+// Commit `file` with three lines, then change its second line in the work tree
+function changeSecondLine(file: string): string {
+  const absolute = path.join(repo, file);
+  fs.mkdirSync(path.dirname(absolute), { recursive: true });
+  fs.writeFileSync(absolute, "one\ntwo\nthree\n");
+  git("add", "-A");
+  git("commit", "-q", "-m", "base");
+  fs.writeFileSync(absolute, "one\nTWO\nthree\n");
+  return absolute;
+}
+
+describe("getGitChanges", () => {
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), "git-changes-"));
+    git("init", "-q");
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("finds changed lines with diff.noprefix set", () => {
+    git("config", "diff.noprefix", "true");
+    const file = changeSecondLine("b/a.ts");
+
+    const { lines } = getGitChanges("HEAD", repo);
+    assert.deepEqual(lines.get(file), new Set([2]));
+  });
+
+  it("finds changed lines with diff.mnemonicPrefix set", () => {
+    git("config", "diff.mnemonicPrefix", "true");
+    const file = changeSecondLine("a.ts");
+
+    const { lines } = getGitChanges("HEAD", repo);
+    assert.deepEqual(lines.get(file), new Set([2]));
+  });
+
+  it("finds changed lines in a file with spaces in its name", () => {
+    const file = changeSecondLine("my file.ts");
+
+    const { files, lines } = getGitChanges("HEAD", repo);
+    assert.deepEqual(files, [file]);
+    assert.deepEqual([...lines.keys()], [file]);
+    assert.deepEqual(lines.get(file), new Set([2]));
+  });
+
+  it("finds changed lines in a file whose name git quotes", () => {
+    const file = changeSecondLine('say "hi".ts');
+
+    const { files, lines } = getGitChanges("HEAD", repo);
+    assert.deepEqual(files, [file]);
+    assert.deepEqual(lines.get(file), new Set([2]));
+  });
+});
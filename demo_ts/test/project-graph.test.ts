@@ -0,0 +1,102 @@
+// test/project-graph.test.ts - Batches planned from tsconfig ownership and imports
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, describe, it } from "node:test";
+import { ProjectGraph } from "../src/tools/project-graph.ts";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "project-graph-"));
+
+function write(file: string, content: string): void {
+  const absolute = path.join(root, file);
+  fs.mkdirSync(path.dirname(absolute), { recursive: true });
+  fs.writeFileSync(absolute, content);
+}
+
+function tsconfig(dir: string): void {
+  write(
+    `${dir}/tsconfig.json`,
+    JSON.stringify({ compilerOptions: { composite: true }, include: ["src"] }),
+  );
+}
+
+// A file importing the given siblings
+function tsFile(file: string, ...imports: string[]): string {
+  write(
+    file,
+    [
+      ...imports.map((name) => `import { ${name} } from "./${name}";`),
+      `export const ${path.basename(file, ".ts")} = 1;`,
+      "",
+    ].join("\n"),
+  );
+  return path.join(root, file);
+}
+
+// A solution tsconfig referencing two projects:
+//   app: main → a → b, d → e, c on its own
+//   lib: entry → one → two → three
+write(
+  "tsconfig.json",
+  JSON.stringify({
+    files: [],
+    references: [{ path: "./app" }, { path: "./lib" }],
+  }),
+);
+tsconfig("app");
+tsconfig("lib");
+const app = {
+  a: tsFile("app/src/a.ts", "b"),
+  b: tsFile("app/src/b.ts"),
+  c: tsFile("app/src/c.ts"),
+  d: tsFile("app/src/d.ts", "e"),
+  e: tsFile("app/src/e.ts"),
+  main: tsFile("app/src/main.ts", "a"),
+};
+const lib = {
+  entry: tsFile("lib/src/entry.ts", "one"),
+  one: tsFile("lib/src/one.ts", "two"),
+  two: tsFile("lib/src/two.ts", "three"),
+  three: tsFile("lib/src/three.ts"),
+};
+
+// Batches with their files as short names, in order
+function plan(files: string[], batchSize: number): [string, string[]][] {
+  return new ProjectGraph()
+    .planBatches(files, batchSize)
+    .map(({ tsconfig, files }) => [
+      path.relative(root, tsconfig ?? ""),
+      files.map((f) => path.basename(f, ".ts")),
+    ]);
+}
+
+describe("ProjectGraph.planBatches", () => {
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("keeps each project's files apart and files that import each other together", () => {
+    assert.deepEqual(plan([...Object.values(app), ...Object.values(lib)], 10), [
+      ["app/tsconfig.json", ["a", "b", "main", "d", "e", "c"]],
+      ["lib/tsconfig.json", ["entry", "one", "two", "three"]],
+    ]);
+  });
+
+  it("packs import groups first fit, biggest first", () => {
+    // Groups of 3, 2 and 1: the single file still fits the first batch
+    assert.deepEqual(plan(Object.values(app), 4), [
+      ["app/tsconfig.json", ["a", "b", "main", "c"]],
+      ["app/tsconfig.json", ["d", "e"]],
+    ]);
+  });
+
+  it("cuts a group larger than a batch along its imports", () => {
+    const { entry, one, two, three } = lib;
+    assert.deepEqual(plan([entry, three, one, two], 2), [
+      ["lib/tsconfig.json", ["entry", "one"]],
+      ["lib/tsconfig.json", ["two", "three"]],
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+// test/result-cache.test.ts - Result cache keys and ignored files
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, beforeEach, describe, it } from "node:test";
+import { ESLint } from "eslint";
+import { ResultCache } from "../src/tools/result-cache.ts";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "result-cache-"));
+const cacheFile = path.join(root, ".cache.json");
+const configPath = path.join(root, "eslint.config.mjs");
+const linted = path.join(root, "a.js");
+const ignored = path.join(root, "ignored.js");
+const pluginDir = path.join(root, "node_modules", "eslint-plugin-demo");
+
+// A plugin without meta, so its version can only come from package.json
+function installPlugin(version: string): void {
+  fs.mkdirSync(pluginDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(pluginDir, "package.json"),
+    JSON.stringify({ name: "eslint-plugin-demo", version, main: "index.js" }),
+  );
+  fs.writeFileSync(
+    path.join(pluginDir, "index.js"),
+    "module.exports = { rules: {} };\n",
+  );
+}
+
+function result(file: string): ESLint.LintResult {
+  return {
+    filePath: file,
+    messages: [],
+    suppressedMessages: [],
+    errorCount: 0,
+    fatalErrorCount: 0,
+    warningCount: 0,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+    usedDeprecatedRules: [],
+  };
+}
+
+async function lintAndSave(files: string[]): Promise<string[]> {
+  const cache = new ResultCache(cacheFile, root);
+  const { toLint } = await cache.partition(files, configPath);
+  cache.update(toLint.filter((f) => f !== ignored).map(result), []);
+  cache.save();
+  return toLint;
+}
+
+describe("ResultCache", () => {
+  beforeEach(() => {
+    fs.rmSync(cacheFile, { force: true });
+    installPlugin("1.0.0");
+    fs.writeFileSync(linted, "export const a = 1;\n");
+    fs.writeFileSync(ignored, "export const b = 2;\n");
+    fs.writeFileSync(
+      configPath,
+      [
+        'import demo from "eslint-plugin-demo";',
+        "export default [",
+        '  { ignores: ["ignored.js"] },',
+        '  { files: ["**/*.js"], plugins: { demo }, rules: { "no-var": "error" } },',
+        "];",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("sends files the config ignores to the workers without a key", async () => {
+    assert.deepEqual(await lintAndSave([linted, ignored]), [linted, ignored]);
+
+    const cache = new ResultCache(cacheFile, root);
+    const { cached, toLint } = await cache.partition(
+      [linted, ignored],
+      configPath,
+    );
+    assert.deepEqual(
+      cached.map((r) => r.filePath),
+      [linted],
+    );
+    assert.deepEqual(toLint, [ignored]);
+  });
+
+  it("fails on a cache file it cannot read", () => {
+    assert.throws(
+      () => new ResultCache(root, root),
+      /Cannot read cache file .*EISDIR/,
+    );
+  });
+
+  it("reuses results while the plugin version is unchanged", async () => {
+    await lintAndSave([linted]);
+    assert.deepEqual(await lintAndSave([linted]), []);
+  });
+
+  it("relints after a plugin upgrade", async () => {
+    await lintAndSave([linted]);
+    installPlugin("1.1.0");
+    assert.deepEqual(await lintAndSave([linted]), [linted]);
+  });
+});
@@ -0,0 +1,164 @@
+// test/suppressions.test.ts - Suppression fingerprints, stale entries, file format
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, describe, it } from "node:test";
+import { ESLint, Linter } from "eslint";
+import {
+  applySuppressions,
+  loadSuppressions,
+  recordSuppressions,
+  writeSuppressions,
+  type Suppression,
+  type SuppressionsFile,
+} from "../src/tools/suppressions.ts";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "suppressions-"));
+
+function message(ruleId: string, line: number): Linter.LintMessage {
+  return { ruleId, line, column: 1, severity: 2, message: `${ruleId} here` };
+}
+
+function result(
+  file: string,
+  source: string,
+  messages: Linter.LintMessage[],
+): ESLint.LintResult {
+  return {
+    filePath: path.join(root, file),
+    messages,
+    suppressedMessages: [],
+    errorCount: messages.length,
+    fatalErrorCount: 0,
+    warningCount: 0,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+    usedDeprecatedRules: [],
+    source,
+  };
+}
+
+function record(results: ESLint.LintResult[]): SuppressionsFile {
+  return {
+    version: 1,
+    suppressions: recordSuppressions(results, null, root),
+  };
+}
+
+function apply(results: ESLint.LintResult[], data: SuppressionsFile) {
+  return applySuppressions(results, data, root, "suppressions.json");
+}
+
+describe("suppressions", () => {
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("matches a violation after the lines above it shift", () => {
+    const data = record([
+      result("a.ts", "let x = 1;\nvar y = 2;\n", [message("no-var", 2)]),
+    ]);
+
+    const shifted = result("a.ts", "// new\n\nlet x = 1;\n  var   y = 2;\n", [
+      message("no-var", 4),
+    ]);
+    const { results, suppressed, stale } = apply([shifted], data);
+    assert.equal(suppressed, 1);
+    assert.deepEqual(stale, []);
+    assert.deepEqual(results[0]!.messages, []);
+    assert.equal(results[0]!.suppressedMessages.length, 1);
+  });
+
+  it("tells identical violations on identical lines apart by occurrence", () => {
+    const source = "var a = 1;\nvar a = 1;\n";
+    const data = record([
+      result("a.ts", source, [message("no-var", 1), message("no-var", 2)]),
+    ]);
+    assert.deepEqual(
+      data.suppressions.map((s) => s.occurrence),
+      [0, 1],
+    );
+
+    // A third copy is new, the first two stay suppressed
+    const { results, suppressed } = apply(
+      [
+        result("a.ts", `${source}var a = 1;\n`, [
+          message("no-var", 1),
+          message("no-var", 2),
+          message("no-var", 3),
+        ]),
+      ],
+      data,
+    );
+    assert.equal(suppressed, 2);
+    assert.deepEqual(
+      results[0]!.messages.map((m) => m.line),
+      [3],
+    );
+  });
+
+  it("reports stale entries only for files that were linted", () => {
+    const data = record([
+      result("a.ts", "var a = 1;\n", [message("no-var", 1)]),
+      result("b.ts", "var b = 1;\n", [message("no-var", 1)]),
+    ]);
+
+    const { stale } = apply([result("a.ts", "const a = 1;\n", [])], data);
+    assert.deepEqual(
+      stale.map((s) => s.file),
+      ["a.ts"],
+    );
+  });
+
+  it("keeps entries for files that weren't linted when recording", () => {
+    const existing = record([
+      result("a.ts", "var a = 1;\n", [message("no-var", 1)]),
+      result("b.ts", "var b = 1;\n", [message("no-var", 1)]),
+    ]);
+
+    const suppressions = recordSuppressions(
+      [result("a.ts", "const a = 1;\n", [])],
+      existing,
+      root,
+    );
+    assert.deepEqual(
+      suppressions.map((s) => s.file),
+      ["b.ts"],
+    );
+  });
+
+  it("writes entries sorted, one per line, regardless of input order", () => {
+    const entry = (
+      file: string,
+      rule: string,
+      snippet: string,
+      occurrence: number,
+    ): Suppression => ({ file, rule, snippet, occurrence, message: "m" });
+    const entries = [
+      entry("b.ts", "no-var", "var b = 1;", 0),
+      entry("a.ts", "no-var", "var a = 1;", 1),
+      entry("a.ts", "eqeqeq", "a == b", 0),
+      entry("a.ts", "no-var", "var a = 1;", 0),
+    ];
+    const first = path.join(root, "first.json");
+    const second = path.join(root, "second.json");
+    writeSuppressions(first, entries);
+    writeSuppressions(second, [...entries].reverse());
+
+    const text = fs.readFileSync(first, "utf8");
+    assert.equal(text, fs.readFileSync(second, "utf8"));
+    assert.deepEqual(
+      loadSuppressions(first)?.suppressions.map(
+        (s) => `${s.file} ${s.rule} ${s.occurrence}`,
+      ),
+      ["a.ts eqeqeq 0", "a.ts no-var 0", "a.ts no-var 1", "b.ts no-var 0"],
+    );
+    // One entry per line
+    assert.equal(
+      text.split("\n").filter((l) => l.includes('"file"')).length,
+      4,
+    );
+  });
+});